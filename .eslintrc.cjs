@@ -10,4 +10,10 @@ module.exports = {
   globals: {
     shopify: "readonly"
   },
+  settings: {
+    // Tests run on vitest, which the jest rules can't detect a version for
+    jest: {
+      version: 28,
+    },
+  },
 };
@@ -0,0 +1,76 @@
+import { useFetcher } from "@remix-run/react";
+import { useState } from "react";
+import {
+  Banner,
+  BlockStack,
+  Button,
+  InlineStack,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import type { CustomerSyncOptions } from "../utils/customer-sync.server";
+import type { action as syncAction } from "../routes/app.runs.$runId.sync";
+
+interface CustomerSyncProps {
+  runId: string;
+  // What the run last synced, if it has been synced before
+  customerSync: CustomerSyncOptions | null;
+  // Rows per sync status
+  counts: Record<string, number>;
+}
+
+// Writes a finished run's codes to the matching Shopify customers: a
+// metafield with the code, amount and campaign, and an optional tag
+export function CustomerSync({ runId, customerSync, counts }: CustomerSyncProps) {
+  const fetcher = useFetcher<typeof syncAction>();
+  const [campaignName, setCampaignName] = useState(customerSync?.campaignName ?? "");
+  const [tag, setTag] = useState(customerSync?.tag ?? "");
+
+  const count = (status: string) => counts[status] ?? 0;
+  const error = fetcher.data && "error" in fetcher.data ? fetcher.data.error : null;
+  const isSubmitting = fetcher.state !== "idle";
+
+  return (
+    <BlockStack gap="300">
+      {error && <Banner tone="critical">{error}</Banner>}
+      <Text as="p" tone="subdued">
+        Writes each backer's code, amount and campaign to the
+        "crowdfunding" metafields of the Shopify customer with their email, so
+        support can look codes up on the customer page.
+      </Text>
+      {customerSync && (
+        <Text as="p">
+          Synced: {count("synced")} | Skipped: {count("skipped")} | Errors:{" "}
+          {count("error")}
+        </Text>
+      )}
+      <InlineStack gap="300" blockAlign="end">
+        <TextField
+          label="Campaign name"
+          value={campaignName}
+          onChange={setCampaignName}
+          autoComplete="off"
+        />
+        <TextField
+          label="Customer tag"
+          value={tag}
+          onChange={setTag}
+          helpText="Optional. Added to every synced customer."
+          autoComplete="off"
+        />
+        <Button
+          onClick={() =>
+            fetcher.submit(
+              { campaignName, tag },
+              { method: "post", action: `/app/runs/${runId}/sync` }
+            )
+          }
+          loading={isSubmitting}
+          disabled={!campaignName.trim()}
+        >
+          {customerSync ? "Sync again" : "Sync to customers"}
+        </Button>
+      </InlineStack>
+    </BlockStack>
+  );
+}
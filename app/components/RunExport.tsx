@@ -0,0 +1,168 @@
+import { useCallback, useMemo, useState } from "react";
+import {
+  Banner,
+  BlockStack,
+  Button,
+  Checkbox,
+  InlineStack,
+  Select,
+  TextField,
+} from "@shopify/polaris";
+import {
+  EXPORT_PROFILES,
+  getExportColumns,
+  isExportProfile,
+  SURVEY_TEMPLATES,
+} from "../utils/export-profiles";
+
+const EXPORT_OPTIONS = [
+  { title: "Results", options: EXPORT_PROFILES },
+  {
+    title: "Survey import",
+    options: SURVEY_TEMPLATES.map((template) => ({
+      label: template.label,
+      value: `template:${template.id}`,
+    })),
+  },
+];
+
+interface RunExportProps {
+  runId: string;
+  // Headers of the file the run was generated from
+  originalHeaders: string[];
+}
+
+// Downloads a run's results from the export route, in the profile, columns
+// and headers the merchant picks, or in a platform's survey import layout
+export function RunExport({ runId, originalHeaders }: RunExportProps) {
+  // A profile, or "template:<id>" for a survey import layout
+  const [profile, setProfile] = useState("full");
+  const [showColumns, setShowColumns] = useState(false);
+  // Keyed by column key, so choices carry over between profiles
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [renames, setRenames] = useState<Record<string, string>>({});
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState("");
+
+  // Survey layouts are fixed, so only profiles have columns to choose
+  const columns = useMemo(
+    () => (isExportProfile(profile) ? getExportColumns(profile, originalHeaders) : []),
+    [profile, originalHeaders]
+  );
+
+  const handleDownload = useCallback(async () => {
+    const params = new URLSearchParams(
+      isExportProfile(profile)
+        ? { profile }
+        : { template: profile.replace(/^template:/, "") }
+    );
+    const included = columns.filter((column) => !excluded.includes(column.key));
+    if (columns.length && !included.length) {
+      setError("Pick at least one column to export");
+      return;
+    }
+    if (
+      included.length < columns.length ||
+      included.some((column) => renames[column.key]?.trim())
+    ) {
+      params.set(
+        "columns",
+        JSON.stringify(
+          included.map((column) => ({
+            key: column.key,
+            header: renames[column.key]?.trim() || column.header,
+          }))
+        )
+      );
+    }
+
+    setDownloading(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/app/runs/${runId}/export?${params}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? "The export could not be created");
+      }
+
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = disposition.match(/filename="([^"]+)"/)?.[1] ?? `${profile}.csv`;
+      a.click();
+      // Some browsers start the download after click() returns
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setDownloading(false);
+    }
+  }, [runId, profile, columns, excluded, renames]);
+
+  return (
+    <BlockStack gap="300">
+      {error && (
+        <Banner tone="critical" onDismiss={() => setError("")}>
+          {error}
+        </Banner>
+      )}
+      <InlineStack gap="300" blockAlign="end">
+        <Select
+          label="Export"
+          options={EXPORT_OPTIONS}
+          value={profile}
+          onChange={setProfile}
+        />
+        <Button onClick={handleDownload} loading={downloading}>
+          Download CSV
+        </Button>
+        {columns.length > 0 && (
+          <Button variant="plain" onClick={() => setShowColumns(!showColumns)}>
+            {showColumns ? "Hide columns" : "Choose columns"}
+          </Button>
+        )}
+      </InlineStack>
+
+      {showColumns && columns.length > 0 && (
+        <BlockStack gap="200">
+          {columns.map((column) => {
+            const isIncluded = !excluded.includes(column.key);
+            return (
+              <InlineStack key={column.key} gap="300" blockAlign="center" wrap={false}>
+                <div style={{ width: "40%" }}>
+                  <Checkbox
+                    label={column.header}
+                    checked={isIncluded}
+                    onChange={(checked) =>
+                      setExcluded((keys) =>
+                        checked
+                          ? keys.filter((key) => key !== column.key)
+                          : [...keys, column.key]
+                      )
+                    }
+                  />
+                </div>
+                <div style={{ flexGrow: 1 }}>
+                  <TextField
+                    label={`Header for ${column.header}`}
+                    labelHidden
+                    value={renames[column.key] ?? ""}
+                    onChange={(value) =>
+                      setRenames((current) => ({ ...current, [column.key]: value }))
+                    }
+                    placeholder={column.header}
+                    disabled={!isIncluded}
+                    autoComplete="off"
+                  />
+                </div>
+              </InlineStack>
+            );
+          })}
+        </BlockStack>
+      )}
+    </BlockStack>
+  );
+}
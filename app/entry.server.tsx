@@ -7,9 +7,13 @@ import {
 } from "@remix-run/node";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startJobWorker } from "./utils/jobs.server";
 
 export const streamTimeout = 5000;
 
+// Resume any generation runs left queued or half-finished by a previous process
+startJobWorker();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
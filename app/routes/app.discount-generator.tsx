@@ -1,5 +1,21 @@
-import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
-import { useActionData, useSubmit, useNavigation } from "@remix-run/react";
+import {
+  json,
+  unstable_composeUploadHandlers,
+  unstable_createMemoryUploadHandler,
+  unstable_parseMultipartFormData,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  useActionData,
+  useFetcher,
+  useLoaderData,
+  useSubmit,
+  useNavigation,
+  useRevalidator,
+  useSearchParams,
+} from "@remix-run/react";
+import { useAppBridge } from "@shopify/app-bridge-react";
 import { useState, useCallback, useEffect } from "react";
 import * as React from "react";
 import {
@@ -18,36 +34,184 @@ import {
   Thumbnail,
   ProgressBar,
   ButtonGroup,
+  InlineStack,
+  Spinner,
+  Checkbox,
+  IndexTable,
+  Badge,
+  Pagination,
+  useIndexResourceState,
 } from "@shopify/polaris";
+import { CustomerSync } from "../components/CustomerSync";
+import { RunExport } from "../components/RunExport";
 import { authenticate } from "../shopify.server";
-import { parseCSV } from "../utils/csv.server";
-import { generateDiscountCodes } from "../utils/discount.server";
-import { generateCSVWithCodes } from "../utils/csv-export.server";
+import { createAdminClient } from "../utils/admin-client.server";
+import {
+  applyAmountRules,
+  validateAmountRules,
+  type AmountFormula,
+  type AmountRules,
+} from "../utils/amount-rules";
+import {
+  DEFAULT_CODE_FORMAT,
+  renderCode,
+  validateCodeFormat,
+} from "../utils/code-template";
+import {
+  validateDiscountConstraints,
+  type DiscountConstraints,
+} from "../utils/discount-constraints";
+import {
+  applyTransform,
+  createTransformStep,
+  TRANSFORM_STEP_LABELS,
+  validateTransform,
+  type TransformStep,
+  type TransformStepType,
+} from "../utils/name-transform";
+import {
+  currencyMismatch,
+  parsePrice,
+  type PriceFormat,
+} from "../utils/price";
+import {
+  applyPlatformPreset,
+  applySavedPreset,
+  detectPlatformPreset,
+  findSavedPreset,
+  PLATFORM_PRESETS,
+  type ColumnMapping,
+  type SavedMappingPreset,
+} from "../utils/mapping-presets";
+import {
+  deleteMappingPreset,
+  listMappingPresets,
+  saveMappingPreset,
+  validateMappingPreset,
+} from "../utils/mapping-presets.server";
+import { parseUpload } from "../utils/upload-formats.server";
+import { getUploadRows, storeUpload } from "../utils/uploads.server";
+import {
+  validateRows,
+  type ValidationReport,
+} from "../utils/csv-validation.server";
+import {
+  validateDiscountSettings,
+  type DiscountItems,
+  type DiscountSettings,
+  type DiscountType,
+} from "../utils/discount-types.server";
+import { enqueueGenerationRun, retryFailedRows } from "../utils/jobs.server";
+import { getGenerationRun, listRunResults } from "../utils/runs.server";
+import { getShopCurrency } from "../utils/shop.server";
+import type { loader as progressLoader } from "./app.runs.$runId.progress";
+
+const PROGRESS_POLL_INTERVAL_MS = 2000;
+const CODE_PREVIEW_ROWS = 3;
+const TRANSFORM_PREVIEW_ROWS = 5;
+
+type TierInput = { minPledge: string; amount: string };
+
+const DISCOUNT_TYPE_OPTIONS = [
+  { label: "Fixed amount off", value: "fixed_amount" },
+  { label: "Percentage off", value: "percentage" },
+  { label: "Free shipping", value: "free_shipping" },
+  { label: "Buy X get Y", value: "bxgy" },
+];
+
+const APPLIES_TO_OPTIONS = [
+  { label: "All products", value: "all" },
+  { label: "Specific products", value: "product" },
+  { label: "Specific variants", value: "variant" },
+  { label: "Specific collections", value: "collection" },
+  { label: "Products or SKUs from a CSV column", value: "column" },
+];
+
+const ENDS_OPTIONS = [
+  { label: "Never", value: "never" },
+  { label: "On a date", value: "date" },
+  { label: "A number of days after each code is created", value: "days" },
+];
+
+const MINIMUM_OPTIONS = [
+  { label: "No minimum", value: "none" },
+  { label: "Minimum purchase amount", value: "subtotal" },
+  { label: "Minimum quantity of items", value: "quantity" },
+];
+
+type PickedResource = { id: string; title?: string };
+
+type CombinesWith = NonNullable<DiscountConstraints["combinesWith"]>;
+
+const NO_COMBINATIONS: CombinesWith = {
+  orderDiscounts: false,
+  productDiscounts: false,
+  shippingDiscounts: false,
+};
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
-  return json({});
+  const { admin, session } = await authenticate.admin(request);
+
+  const params = new URL(request.url).searchParams;
+  const runId = params.get("runId");
+  const run = runId ? await getGenerationRun(session.shop, runId) : null;
+  // Results are paged; the run page has search and status filters
+  const runResults = run
+    ? await listRunResults(run.id, {
+        page: Math.max(1, Number(params.get("page")) || 1),
+      })
+    : null;
+  const shopCurrency = await getShopCurrency(createAdminClient(admin.graphql));
+  const mappingPresets = await listMappingPresets(session.shop);
+
+  return json({ run, runResults, shopCurrency, mappingPresets });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
+
+  // Uploaded files are parsed and stored while they stream in, so the action
+  // gets the stored upload (as JSON) in place of the file itself. The page
+  // sends the Excel sheet to read ahead of the file.
+  let sheet: string | undefined;
+  const uploadHandler = unstable_composeUploadHandlers(
+    async ({ name, filename, data }) => {
+      if (name === "sheet") {
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of data) chunks.push(chunk);
+        sheet = Buffer.concat(chunks).toString("utf8") || undefined;
+        return sheet;
+      }
+      if (name !== "file" || !filename) {
+        return undefined;
+      }
+
+      const source = await parseUpload(filename, data, { sheet });
+      const stored = await storeUpload(session.shop, filename, source);
+      return JSON.stringify(stored);
+    },
+    unstable_createMemoryUploadHandler()
+  );
 
   try {
-    const formData = await request.formData();
+    const formData = request.headers
+      .get("Content-Type")
+      ?.startsWith("multipart/form-data")
+      ? await unstable_parseMultipartFormData(request, uploadHandler)
+      : await request.formData();
     const intent = formData.get("intent");
 
     console.log("Action called with intent:", intent);
 
     if (intent === "upload") {
-      const file = formData.get("file") as File;
-      console.log("File received:", file?.name, file?.size);
+      const stored = formData.get("file");
 
-      if (!file) {
+      if (typeof stored !== "string") {
         return json({ error: "No file provided" }, { status: 400 });
       }
 
-      const csvData = await parseCSV(file);
-      console.log("CSV parsed:", csvData.rowCount, "rows");
+      // The rows stay on the server; the page gets a preview and the upload ID
+      const csvData: Awaited<ReturnType<typeof storeUpload>> = JSON.parse(stored);
 
       return json({
         success: true,
@@ -56,41 +220,140 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       });
     }
 
+    if (intent === "validate") {
+      const { headers, data } = await getUploadRows(
+        session.shop,
+        formData.get("uploadId") as string
+      );
+      const emailColumns: string[] = JSON.parse(
+        formData.get("emailColumns") as string
+      );
+
+      const report = validateRows(headers, data, {
+        nameColumn: formData.get("nameColumn") as string,
+        priceColumn: formData.get("priceColumn") as string,
+        priceFormat: (formData.get("priceFormat") as PriceFormat) || "auto",
+        shopCurrency: await getShopCurrency(createAdminClient(admin.graphql)),
+        emailColumns,
+      });
+
+      return json({
+        success: true,
+        report,
+        intent: "validate"
+      });
+    }
+
+    if (intent === "save-preset") {
+      const name = formData.get("name") as string;
+      const mapping: ColumnMapping = JSON.parse(formData.get("mapping") as string);
+      const headers: string[] = JSON.parse(formData.get("headers") as string);
+
+      const presetError = validateMappingPreset(name, mapping);
+      if (presetError) {
+        return json({ error: presetError }, { status: 400 });
+      }
+
+      const preset = await saveMappingPreset(session.shop, name, mapping, headers);
+
+      return json({
+        success: true,
+        preset,
+        intent: "save-preset"
+      });
+    }
+
+    if (intent === "delete-preset") {
+      await deleteMappingPreset(session.shop, formData.get("presetId") as string);
+
+      return json({
+        success: true,
+        intent: "delete-preset"
+      });
+    }
+
     if (intent === "generate") {
-      const data = JSON.parse(formData.get("data") as string);
+      const upload = await getUploadRows(
+        session.shop,
+        formData.get("uploadId") as string
+      );
+      const excludedRows: number[] = JSON.parse(
+        (formData.get("excludedRows") as string) || "[]"
+      );
+      const rows = upload.rows.filter(({ row }) => !excludedRows.includes(row));
+      if (!rows.length) {
+        return json({ error: "Every row is excluded" }, { status: 400 });
+      }
+
       const nameColumn = formData.get("nameColumn") as string;
       const priceColumn = formData.get("priceColumn") as string;
-      const transformFunction = formData.get("transformFunction") as string;
+      const backerKeyColumn = formData.get("backerKeyColumn") as string;
+      const emailColumn = formData.get("emailColumn") as string;
+      const tierColumn = formData.get("tierColumn") as string;
+      const mode = formData.get("mode") === "grouped" ? "grouped" : "individual";
+      const transform: TransformStep[] = JSON.parse(
+        formData.get("transform") as string
+      );
+      const fileName = upload.fileName;
+      const campaign =
+        ((formData.get("campaign") as string) ?? "").trim() ||
+        fileName.replace(/\.[^.]+$/, "");
+      const dryRun = formData.get("dryRun") === "true";
+      const settings: DiscountSettings = JSON.parse(
+        formData.get("settings") as string
+      );
+
+      const transformError = validateTransform(transform);
+      if (transformError) {
+        return json({ error: transformError }, { status: 400 });
+      }
 
-      console.log("Generating discounts for", data.length, "rows");
+      const settingsError = validateDiscountSettings(settings, upload.headers);
+      if (settingsError) {
+        return json({ error: settingsError }, { status: 400 });
+      }
+
+      // A grouped discount has one customer selection shared by all its codes
+      if (mode === "grouped" && settings.customerEmailColumn) {
+        return json(
+          { error: "Codes limited to one customer need one discount per backer" },
+          { status: 400 }
+        );
+      }
 
-      const results = await generateDiscountCodes(
-        admin.graphql,
-        data,
-        nameColumn,
-        priceColumn,
-        transformFunction
+      // Large backer lists take far longer than any request timeout, so the
+      // job worker does the work and the page follows the run by its ID
+      const runId = await enqueueGenerationRun(
+        session.shop,
+        {
+          fileName,
+          headers: upload.headers,
+          campaign,
+          mapping: { nameColumn, priceColumn, backerKeyColumn, emailColumn, tierColumn },
+          transform,
+          mode,
+          settings,
+          dryRun,
+        },
+        rows
       );
 
       return json({
         success: true,
-        results,
-        originalData: data, // Keep original data for CSV export
+        runId,
         intent: "generate"
       });
     }
 
-    if (intent === "export-csv") {
-      const results = JSON.parse(formData.get("results") as string);
-      const originalData = JSON.parse(formData.get("originalData") as string);
+    if (intent === "retry-failed") {
+      const runId = formData.get("runId") as string;
+      const retried = await retryFailedRows(session.shop, runId);
 
-      const csvContent = generateCSVWithCodes(originalData, results.results);
-
-      return new Response(csvContent, {
-        headers: {
-          'Content-Type': 'text/csv',
-          'Content-Disposition': `attachment; filename="kickstarter_discounts_${new Date().toISOString().split('T')[0]}.csv"`
-        }
+      return json({
+        success: true,
+        runId,
+        retried,
+        intent: "retry-failed"
       });
     }
 
@@ -105,38 +368,236 @@ export default function DiscountGenerator() {
   const submit = useSubmit();
   const navigation = useNavigation();
   const actionData = useActionData<typeof action>();
+  const { run, runResults, shopCurrency, mappingPresets } =
+    useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+  const { revalidate } = useRevalidator();
+  const shopify = useAppBridge();
+  const progressFetcher = useFetcher<typeof progressLoader>();
+  const validationFetcher = useFetcher<typeof action>();
+  const presetFetcher = useFetcher<typeof action>();
+  const loadProgress = progressFetcher.load;
 
   const [csvData, setCsvData] = useState<any>(null);
   const [file, setFile] = useState<File | null>(null);
   const [nameColumn, setNameColumn] = useState("");
   const [priceColumn, setPriceColumn] = useState("");
-  const [transformFunction, setTransformFunction] = useState("return name;");
-  const [results, setResults] = useState<any>(null);
-  const [originalData, setOriginalData] = useState<any>(null);
+  const [backerKeyColumn, setBackerKeyColumn] = useState("");
+  const [emailColumn, setEmailColumn] = useState("");
+  const [tierColumn, setTierColumn] = useState("");
+  const [campaign, setCampaign] = useState("");
+  const [mode, setMode] = useState("individual");
+  const [transformSteps, setTransformSteps] = useState<TransformStep[]>([]);
+  const [discountType, setDiscountType] = useState<DiscountType>("fixed_amount");
+  const [valueSource, setValueSource] = useState("column");
+  const [valueColumn, setValueColumn] = useState("");
+  const [constantValue, setConstantValue] = useState("");
+  const [buyQuantity, setBuyQuantity] = useState("1");
+  const [getQuantity, setGetQuantity] = useState("1");
+  const [appliesTo, setAppliesTo] = useState("all");
+  const [pickedItems, setPickedItems] = useState<PickedResource[]>([]);
+  const [itemsColumn, setItemsColumn] = useState("");
+  const [customerEmailColumn, setCustomerEmailColumn] = useState("");
+  // "platform:<id>" or "saved:<id>"
+  const [presetId, setPresetId] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [codePrefix, setCodePrefix] = useState(DEFAULT_CODE_FORMAT.prefix);
+  const [codeTemplate, setCodeTemplate] = useState(DEFAULT_CODE_FORMAT.template);
+  const [codeSuffix, setCodeSuffix] = useState(DEFAULT_CODE_FORMAT.suffix);
+  const [priceFormat, setPriceFormat] = useState<PriceFormat>("auto");
+  const [amountFormula, setAmountFormula] = useState<AmountFormula>("pledge");
+  const [pledgePercent, setPledgePercent] = useState("");
+  const [amountTiers, setAmountTiers] = useState<TierInput[]>([
+    { minPledge: "", amount: "" },
+  ]);
+  const [amountCap, setAmountCap] = useState("");
+  const [minimumPledge, setMinimumPledge] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsMode, setEndsMode] = useState("never");
+  const [endsAt, setEndsAt] = useState("");
+  const [expiresAfterDays, setExpiresAfterDays] = useState("");
+  const [minimumType, setMinimumType] = useState("none");
+  const [minimumValue, setMinimumValue] = useState("");
+  const [usageMode, setUsageMode] = useState("default");
+  const [usageLimit, setUsageLimit] = useState("");
+  const [oncePerCustomer, setOncePerCustomer] = useState(true);
+  const [combinesWith, setCombinesWith] = useState<CombinesWith>(NO_COMBINATIONS);
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
+  // 1-based row numbers left out of the run
+  const [excludedRows, setExcludedRows] = useState<number[]>([]);
+  const [summary, setSummary] = useState<{
+    total: number;
+    successful: number;
+    errors: number;
+  } | null>(null);
+  const [originalHeaders, setOriginalHeaders] = useState<string[]>([]);
   const [error, setError] = useState("");
 
   const isLoading = navigation.state === "submitting";
 
+  // Restore a stored run when the page is opened (or reloaded) with ?runId=
+  useEffect(() => {
+    if (run) {
+      setSummary(run.summary);
+      setOriginalHeaders(run.originalHeaders);
+      setNameColumn(run.mapping.nameColumn);
+      setPriceColumn(run.mapping.priceColumn);
+      setBackerKeyColumn(run.mapping.backerKeyColumn || "");
+      setEmailColumn(run.mapping.emailColumn || "");
+      setTierColumn(run.mapping.tierColumn || "");
+      setCampaign(run.campaign);
+      setMode(run.mode);
+      setTransformSteps(run.transform as TransformStep[]);
+
+      const settings = run.settings as DiscountSettings;
+      setDiscountType(settings.type);
+      setValueSource(settings.valueSource);
+      setValueColumn(settings.valueColumn || "");
+      setConstantValue(settings.constantValue?.toString() ?? "");
+      setBuyQuantity(settings.buyQuantity?.toString() ?? "1");
+      setGetQuantity(settings.getQuantity?.toString() ?? "1");
+      setItemsColumn(settings.itemsColumn || "");
+      setCustomerEmailColumn(settings.customerEmailColumn || "");
+
+      const codeFormat = settings.codeFormat ?? DEFAULT_CODE_FORMAT;
+      setCodePrefix(codeFormat.prefix);
+      setCodeTemplate(codeFormat.template);
+      setCodeSuffix(codeFormat.suffix);
+      setPriceFormat(settings.priceFormat ?? "auto");
+
+      const rules = settings.amountRules;
+      setAmountFormula(rules?.formula ?? "pledge");
+      setPledgePercent(rules?.percent?.toString() ?? "");
+      setAmountTiers(
+        rules?.tiers?.length
+          ? rules.tiers.map((tier) => ({
+              minPledge: String(tier.minPledge),
+              amount: String(tier.amount),
+            }))
+          : [{ minPledge: "", amount: "" }]
+      );
+      setAmountCap(rules?.cap?.toString() ?? "");
+      setMinimumPledge(rules?.minimumPledge?.toString() ?? "");
+
+      const constraints = settings.constraints ?? {};
+      setStartsAt(constraints.startsAt ? toLocalDateTime(constraints.startsAt) : "");
+      setEndsMode(
+        constraints.endsAt ? "date" : constraints.expiresAfterDays ? "days" : "never"
+      );
+      setEndsAt(constraints.endsAt ? toLocalDateTime(constraints.endsAt) : "");
+      setExpiresAfterDays(constraints.expiresAfterDays?.toString() ?? "");
+      setMinimumType(constraints.minimumRequirement?.type ?? "none");
+      setMinimumValue(constraints.minimumRequirement?.value?.toString() ?? "");
+      setUsageMode(
+        constraints.usageLimit === undefined
+          ? "default"
+          : constraints.usageLimit === null
+            ? "unlimited"
+            : "limited"
+      );
+      setUsageLimit(constraints.usageLimit?.toString() ?? "");
+      setOncePerCustomer(constraints.appliesOncePerCustomer ?? true);
+      setCombinesWith(constraints.combinesWith ?? NO_COMBINATIONS);
+
+      const { productIds = [], variantIds = [], collectionIds = [] } =
+        settings.items ?? {};
+      const picked = [
+        ["product", productIds],
+        ["variant", variantIds],
+        ["collection", collectionIds],
+      ].find(([, ids]) => ids.length) as [string, string[]] | undefined;
+      setAppliesTo(settings.itemsColumn ? "column" : picked?.[0] ?? "all");
+      setPickedItems(picked ? picked[1].map((id) => ({ id })) : []);
+    }
+  }, [run]);
+
+  const runId = run?.id;
+  const runInFlight = run?.status === "queued" || run?.status === "running";
+  const progress =
+    progressFetcher.data && "progress" in progressFetcher.data
+      ? progressFetcher.data.progress
+      : null;
+
+  // Poll the progress endpoint while the worker is busy with this run
+  useEffect(() => {
+    if (!runId || !runInFlight) return;
+
+    const poll = () => loadProgress(`/app/runs/${runId}/progress`);
+    poll();
+    const interval = setInterval(poll, PROGRESS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [runId, runInFlight, loadProgress]);
+
+  const showResultsPage = useCallback(
+    (page: number) => {
+      if (!runId) return;
+
+      setSearchParams(
+        page > 1 ? { runId, page: String(page) } : { runId },
+        { preventScrollReset: true }
+      );
+    },
+    [runId, setSearchParams]
+  );
+
+  // Once the run finishes, reload it so its results and exports appear
+  const progressStatus = progress?.status;
+  useEffect(() => {
+    if (
+      runInFlight &&
+      (progressStatus === "completed" || progressStatus === "failed")
+    ) {
+      revalidate();
+    }
+  }, [runInFlight, progressStatus, revalidate]);
+
   // Handle action data updates
   useEffect(() => {
     console.log("Action data received:", actionData);
 
     if (actionData) {
-      if (actionData.error) {
+      if ("error" in actionData) {
         setError(actionData.error);
         console.error("Error from action:", actionData.error);
-      } else if (actionData.intent === "upload" && actionData.csvData) {
-        setCsvData(actionData.csvData);
+      } else if ("csvData" in actionData) {
+        const uploaded: any = actionData.csvData;
+        setCsvData(uploaded);
+        setCampaign(uploaded.fileName.replace(/\.[^.]+$/, ""));
+        setValidationReport(null);
+        setExcludedRows([]);
         setError("");
         console.log("CSV data set:", actionData.csvData);
-      } else if (actionData.intent === "generate" && actionData.results) {
-        setResults(actionData.results);
-        setOriginalData(actionData.originalData);
+      } else if (
+        "intent" in actionData &&
+        actionData.intent === "generate" &&
+        "runId" in actionData
+      ) {
         setError("");
-        console.log("Results set:", actionData.results);
+        setSearchParams({ runId: actionData.runId as string }, { replace: true });
       }
     }
-  }, [actionData]);
+  }, [actionData, setSearchParams]);
+
+  const uploadFile = useCallback(
+    (uploadedFile: File, sheet?: string) => {
+      setError("");
+
+      const formData = new FormData();
+      formData.append("intent", "upload");
+      // Must come before the file, which is parsed as it arrives
+      if (sheet) {
+        formData.append("sheet", sheet);
+      }
+      formData.append("file", uploadedFile);
+
+      console.log("Submitting file upload...");
+      submit(formData, {
+        method: "post",
+        encType: "multipart/form-data",
+      });
+    },
+    [submit]
+  );
 
   const handleFileUpload = useCallback(
     (files: File[]) => {
@@ -145,51 +606,539 @@ export default function DiscountGenerator() {
 
       if (uploadedFile) {
         setFile(uploadedFile);
-        setError("");
+        uploadFile(uploadedFile);
+      }
+    },
+    [uploadFile]
+  );
+
+  const needsValue = discountType !== "free_shipping";
+  const isPercentage = discountType === "percentage" || discountType === "bxgy";
+
+  const amountRules: AmountRules = React.useMemo(
+    () => ({
+      formula: amountFormula,
+      percent: amountFormula === "percent" ? parseFloat(pledgePercent) : undefined,
+      tiers:
+        amountFormula === "tiers"
+          ? amountTiers.map((tier) => ({
+              minPledge: parseFloat(tier.minPledge),
+              amount: parseFloat(tier.amount),
+            }))
+          : undefined,
+      cap: amountCap ? parseFloat(amountCap) : undefined,
+      minimumPledge: minimumPledge ? parseFloat(minimumPledge) : undefined,
+    }),
+    [amountFormula, pledgePercent, amountTiers, amountCap, minimumPledge]
+  );
+
+  const constraints: DiscountConstraints = React.useMemo(
+    () => ({
+      startsAt: startsAt ? fromLocalDateTime(startsAt) : undefined,
+      endsAt: endsMode === "date" && endsAt ? fromLocalDateTime(endsAt) : undefined,
+      expiresAfterDays:
+        endsMode === "days" ? parseInt(expiresAfterDays, 10) : undefined,
+      minimumRequirement:
+        minimumType !== "none" && discountType !== "bxgy"
+          ? {
+              type: minimumType as "subtotal" | "quantity",
+              value: parseFloat(minimumValue),
+            }
+          : undefined,
+      usageLimit:
+        usageMode === "default"
+          ? undefined
+          : usageMode === "unlimited"
+            ? null
+            : parseInt(usageLimit, 10),
+      appliesOncePerCustomer: oncePerCustomer,
+      combinesWith,
+    }),
+    [
+      startsAt,
+      endsMode,
+      endsAt,
+      expiresAfterDays,
+      minimumType,
+      minimumValue,
+      discountType,
+      usageMode,
+      usageLimit,
+      oncePerCustomer,
+      combinesWith,
+    ]
+  );
+
+  const discountSettings: DiscountSettings = React.useMemo(
+    () => ({
+      type: discountType,
+      valueSource: valueSource === "constant" ? "constant" : "column",
+      valueColumn: valueColumn || undefined,
+      constantValue:
+        valueSource === "constant" ? parseFloat(constantValue) : undefined,
+      buyQuantity: discountType === "bxgy" ? parseInt(buyQuantity, 10) : undefined,
+      getQuantity: discountType === "bxgy" ? parseInt(getQuantity, 10) : undefined,
+      items: pickedItemsFor(appliesTo, pickedItems),
+      itemsColumn: appliesTo === "column" ? itemsColumn : undefined,
+      customerEmailColumn:
+        mode === "individual" && customerEmailColumn ? customerEmailColumn : undefined,
+      codeFormat: { prefix: codePrefix, template: codeTemplate, suffix: codeSuffix },
+      priceFormat,
+      amountRules,
+      constraints,
+    }),
+    [
+      discountType,
+      valueSource,
+      valueColumn,
+      constantValue,
+      buyQuantity,
+      getQuantity,
+      appliesTo,
+      pickedItems,
+      itemsColumn,
+      mode,
+      customerEmailColumn,
+      codePrefix,
+      codeTemplate,
+      codeSuffix,
+      priceFormat,
+      amountRules,
+      constraints,
+    ]
+  );
+  const amountRulesError = validateAmountRules(amountRules);
+  const constraintsError =
+    endsMode === "date" && !endsAt
+      ? "Choose the date codes stop working"
+      : validateDiscountConstraints(constraints, discountType);
+
+  // The pledge and discount value for a row, as the worker will work them out
+  const previewAmounts = useCallback(
+    (row: any) => {
+      const price = parsePrice(row[priceColumn], priceFormat);
+      if (!price.ok) {
+        return { pledge: price.reason, discount: "-" };
+      }
+
+      const threshold = applyAmountRules(
+        { formula: "pledge", minimumPledge: amountRules.minimumPledge },
+        price.amount
+      );
 
-        const formData = new FormData();
-        formData.append("intent", "upload");
-        formData.append("file", uploadedFile);
+      let discount: string;
+      if ("error" in threshold) {
+        discount = threshold.error;
+      } else if (!needsValue) {
+        discount = "Free shipping";
+      } else if (amountRulesError) {
+        discount = "-";
+      } else if (valueSource === "constant") {
+        discount = constantValue || "-";
+      } else {
+        const base = valueColumn
+          ? parsePrice(row[valueColumn], priceFormat)
+          : price;
+        const applied = base.ok
+          ? applyAmountRules({ ...amountRules, minimumPledge: undefined }, base.amount)
+          : { error: base.reason };
+        discount = "error" in applied ? applied.error : String(applied.value);
+      }
 
-        console.log("Submitting file upload...");
-        submit(formData, {
-          method: "post",
-          encType: "multipart/form-data",
+      return { pledge: String(price.amount), discount };
+    },
+    [
+      priceColumn,
+      priceFormat,
+      needsValue,
+      amountRulesError,
+      valueSource,
+      constantValue,
+      valueColumn,
+      amountRules,
+    ]
+  );
+
+  // How the price column reads in the preview rows: rows that can't be
+  // parsed and rows in a currency other than the shop's. The pre-flight
+  // check covers the whole file.
+  const priceCheck = React.useMemo(() => {
+    if (!csvData || !priceColumn) {
+      return null;
+    }
+
+    let unreadable = 0;
+    const mismatches = new Set<string>();
+    for (const row of csvData.data) {
+      const price = parsePrice(row[priceColumn], priceFormat);
+      if (!price.ok || price.amount < 0) {
+        unreadable++;
+        continue;
+      }
+
+      const mismatch = currencyMismatch(price.currencies, shopCurrency);
+      if (mismatch) {
+        mismatches.add(mismatch);
+      }
+    }
+
+    return { unreadable, mismatches: [...mismatches] };
+  }, [csvData, priceColumn, priceFormat, shopCurrency]);
+
+  const transformError = validateTransform(transformSteps);
+
+  // Backer names after the transform, for the previews. Null when the
+  // transform can't run yet.
+  const transformedName = useCallback(
+    (row: any) => {
+      const name = String(row[nameColumn] ?? "");
+      return transformError ? null : applyTransform(transformSteps, name);
+    },
+    [nameColumn, transformSteps, transformError]
+  );
+
+  const codeFormatError = csvData
+    ? validateCodeFormat(discountSettings.codeFormat!, csvData.headers)
+    : null;
+
+  // Example codes for the first rows. The real {seq} values continue from the
+  // shop's counter.
+  const codePreview = React.useMemo(() => {
+    if (!csvData || !nameColumn || codeFormatError) {
+      return [];
+    }
+
+    return csvData.data.slice(0, CODE_PREVIEW_ROWS).map((row: any, index: number) => {
+      try {
+        return renderCode(discountSettings.codeFormat!, {
+          row,
+          name: transformedName(row) ?? String(row[nameColumn] ?? ""),
+          sequence: index + 1,
         });
+      } catch (error: any) {
+        return `Error: ${error.message}`;
+      }
+    });
+  }, [csvData, nameColumn, codeFormatError, discountSettings.codeFormat, transformedName]);
+
+  const handlePickItems = useCallback(async () => {
+    const selection = await shopify.resourcePicker({
+      type: appliesTo as "product" | "variant" | "collection",
+      multiple: true,
+      selectionIds: pickedItems.map(({ id }) => ({ id })),
+    });
+
+    if (selection) {
+      setPickedItems(
+        selection.map((resource: any) => ({
+          id: resource.id,
+          title: resource.displayName ?? resource.title,
+        }))
+      );
+    }
+  }, [shopify, appliesTo, pickedItems]);
+
+  const applyMapping = useCallback((mapping: ColumnMapping) => {
+    setNameColumn(mapping.nameColumn ?? "");
+    setPriceColumn(mapping.priceColumn ?? "");
+    setBackerKeyColumn(mapping.backerKeyColumn ?? "");
+    setTierColumn(mapping.tierColumn ?? "");
+    // Restricting codes to customers stays the merchant's choice
+    setEmailColumn(mapping.emailColumn ?? "");
+  }, []);
+
+  // Map each new upload from a preset saved for the same export, or else from
+  // the platform its headers come from
+  const uploadId = csvData?.uploadId;
+  useEffect(() => {
+    if (!uploadId) {
+      return;
+    }
+
+    const headers: string[] = csvData.headers;
+    const saved = findSavedPreset(mappingPresets, headers);
+    const detected = saved ? null : detectPlatformPreset(headers);
+    if (saved) {
+      applyMapping(applySavedPreset(saved, headers));
+      setPresetId(`saved:${saved.id}`);
+    } else if (detected) {
+      applyMapping(detected.mapping);
+      setPresetId(`platform:${detected.preset.id}`);
+    } else {
+      setPresetId("");
+    }
+    // Only on upload, so later changes to the mapping are kept
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [uploadId]);
+
+  const handlePresetChange = useCallback(
+    (value: string) => {
+      setPresetId(value);
+
+      const platform = PLATFORM_PRESETS.find(
+        (preset) => `platform:${preset.id}` === value
+      );
+      const saved = mappingPresets.find((preset) => `saved:${preset.id}` === value);
+      if (platform) {
+        applyMapping(applyPlatformPreset(platform, csvData.headers));
+      } else if (saved) {
+        applyMapping(applySavedPreset(saved, csvData.headers));
       }
     },
-    [submit]
+    [csvData, mappingPresets, applyMapping]
+  );
+
+  const presetData = presetFetcher.data;
+  useEffect(() => {
+    if (presetData && "preset" in presetData) {
+      setPresetId(`saved:${(presetData.preset as SavedMappingPreset).id}`);
+      setPresetName("");
+      setError("");
+    } else if (presetData && "error" in presetData) {
+      setError(presetData.error);
+    }
+  }, [presetData]);
+
+  const submitPreset = presetFetcher.submit;
+  const handleSavePreset = useCallback(() => {
+    const mapping: ColumnMapping = {
+      nameColumn,
+      priceColumn,
+      backerKeyColumn,
+      tierColumn,
+      emailColumn,
+    };
+
+    const formData = new FormData();
+    formData.append("intent", "save-preset");
+    formData.append("name", presetName);
+    formData.append("mapping", JSON.stringify(mapping));
+    formData.append("headers", JSON.stringify(csvData.headers));
+
+    submitPreset(formData, { method: "post" });
+  }, [
+    submitPreset,
+    csvData,
+    presetName,
+    nameColumn,
+    priceColumn,
+    backerKeyColumn,
+    tierColumn,
+    emailColumn,
+  ]);
+
+  const handleDeletePreset = useCallback(() => {
+    const formData = new FormData();
+    formData.append("intent", "delete-preset");
+    formData.append("presetId", presetId.replace(/^saved:/, ""));
+
+    submitPreset(formData, { method: "post" });
+    setPresetId("");
+  }, [submitPreset, presetId]);
+
+  // Keep the latest pre-flight report until the next upload
+  const validationData = validationFetcher.data;
+  useEffect(() => {
+    if (validationData && "report" in validationData) {
+      setValidationReport(validationData.report as ValidationReport);
+    } else if (validationData && "error" in validationData) {
+      setError(validationData.error);
+    }
+  }, [validationData]);
+
+  const submitValidation = validationFetcher.submit;
+  const handleValidate = useCallback(() => {
+    if (!csvData || !nameColumn || !priceColumn) {
+      setError("Please select both name and price columns");
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("intent", "validate");
+    formData.append("uploadId", csvData.uploadId);
+    formData.append("nameColumn", nameColumn);
+    formData.append("priceColumn", priceColumn);
+    formData.append("priceFormat", priceFormat);
+    formData.append(
+      "emailColumns",
+      JSON.stringify([customerEmailColumn, emailColumn, backerKeyColumn].filter(Boolean))
+    );
+
+    submitValidation(formData, { method: "post" });
+  }, [
+    submitValidation,
+    csvData,
+    nameColumn,
+    priceColumn,
+    priceFormat,
+    customerEmailColumn,
+    emailColumn,
+    backerKeyColumn,
+  ]);
+
+  // The report's groups with each group's first position in the table
+  const reportGroups = React.useMemo(() => {
+    let position = 0;
+    return (validationReport?.groups ?? []).map((group) => {
+      const start = position;
+      position += group.issues.length;
+      return { ...group, start };
+    });
+  }, [validationReport]);
+
+  const reportIssues = React.useMemo(
+    () =>
+      reportGroups.flatMap((group) =>
+        group.issues.map((issue) => ({ ...issue, id: `${issue.kind}-${issue.row}` }))
+      ),
+    [reportGroups]
   );
 
-  const handleGenerate = useCallback(() => {
+  const {
+    selectedResources,
+    allResourcesSelected,
+    handleSelectionChange,
+    clearSelection,
+  } = useIndexResourceState(reportIssues);
+
+  const setSelectedRowsExcluded = useCallback(
+    (exclude: boolean) => {
+      const rows = new Set(
+        reportIssues
+          .filter((issue) => selectedResources.includes(issue.id))
+          .map((issue) => issue.row)
+      );
+
+      setExcludedRows((current) =>
+        exclude
+          ? [...new Set([...current, ...rows])].sort((a, b) => a - b)
+          : current.filter((row) => !rows.has(row))
+      );
+      clearSelection();
+    },
+    [reportIssues, selectedResources, clearSelection]
+  );
+
+  const handleAppliesToChange = useCallback((value: string) => {
+    setAppliesTo(value);
+    setPickedItems([]);
+  }, []);
+
+  // Shopify has no "all products" buy X get Y discount
+  useEffect(() => {
+    if (discountType === "bxgy" && appliesTo === "all") {
+      handleAppliesToChange("product");
+    }
+  }, [discountType, appliesTo, handleAppliesToChange]);
+
+  const handleGenerate = useCallback((dryRun: boolean) => {
     if (!csvData || !nameColumn || !priceColumn) {
       setError("Please select both name and price columns");
       return;
     }
 
+    if (appliesTo === "column" ? !itemsColumn : appliesTo !== "all" && !pickedItems.length) {
+      setError("Please choose the items the discount applies to");
+      return;
+    }
+
+    if (codeFormatError) {
+      setError(codeFormatError);
+      return;
+    }
+
+    if (transformError) {
+      setError(transformError);
+      return;
+    }
+
+    if (amountRulesError) {
+      setError(amountRulesError);
+      return;
+    }
+
+    if (constraintsError) {
+      setError(constraintsError);
+      return;
+    }
+
+    if (excludedRows.length >= csvData.rowCount) {
+      setError("Every row is excluded");
+      return;
+    }
+
     console.log("Starting discount generation...");
     setError("");
 
     const formData = new FormData();
     formData.append("intent", "generate");
-    formData.append("data", JSON.stringify(csvData.data));
+    formData.append("uploadId", csvData.uploadId);
+    formData.append("excludedRows", JSON.stringify(excludedRows));
     formData.append("nameColumn", nameColumn);
     formData.append("priceColumn", priceColumn);
-    formData.append("transformFunction", transformFunction);
+    formData.append("backerKeyColumn", backerKeyColumn);
+    formData.append("emailColumn", emailColumn);
+    formData.append("tierColumn", tierColumn);
+    formData.append("campaign", campaign);
+    formData.append("mode", mode);
+    formData.append("transform", JSON.stringify(transformSteps));
+    formData.append("settings", JSON.stringify(discountSettings));
+    formData.append("dryRun", String(dryRun));
 
     submit(formData, { method: "post" });
-  }, [submit, csvData, nameColumn, priceColumn, transformFunction]);
+  }, [
+    submit,
+    csvData,
+    excludedRows,
+    nameColumn,
+    priceColumn,
+    backerKeyColumn,
+    emailColumn,
+    tierColumn,
+    campaign,
+    mode,
+    transformSteps,
+    discountSettings,
+    appliesTo,
+    itemsColumn,
+    pickedItems,
+    codeFormatError,
+    transformError,
+    amountRulesError,
+    constraintsError,
+  ]);
 
-  const handleExportCSV = useCallback(() => {
-    if (!results || !originalData) return;
+  const handleRetryFailed = useCallback(() => {
+    if (!runId) return;
 
     const formData = new FormData();
-    formData.append("intent", "export-csv");
-    formData.append("results", JSON.stringify(results));
-    formData.append("originalData", JSON.stringify(originalData));
+    formData.append("intent", "retry-failed");
+    formData.append("runId", runId);
 
     submit(formData, { method: "post" });
-  }, [submit, results, originalData]);
+  }, [submit, runId]);
+
+  const presetOptions = [
+    { label: "Choose a preset...", value: "" },
+    {
+      title: "Crowdfunding platforms",
+      options: PLATFORM_PRESETS.map((preset) => ({
+        label: preset.name,
+        value: `platform:${preset.id}`,
+      })),
+    },
+    ...(mappingPresets.length
+      ? [
+          {
+            title: "Saved presets",
+            options: mappingPresets.map((preset) => ({
+              label: preset.name,
+              value: `saved:${preset.id}`,
+            })),
+          },
+        ]
+      : []),
+  ];
 
   const columnOptions = csvData?.headers
     ? csvData.headers.map((header: string) => ({ label: header, value: header }))
@@ -210,12 +1159,16 @@ export default function DiscountGenerator() {
         )}
 
         <Layout.Section>
-          <Card title="Upload CSV File">
+          <Card title="Upload Backer File">
             <div style={{ padding: "20px" }}>
               <BlockStack >
                 {!file ? (
-                  <DropZone onDrop={handleFileUpload} accept=".csv" type="file">
-                    <DropZone.FileUpload />
+                  <DropZone
+                    onDrop={handleFileUpload}
+                    accept=".csv,.tsv,.txt,.xlsx,.json,.ndjson,.jsonl"
+                    type="file"
+                  >
+                    <DropZone.FileUpload actionHint="Accepts CSV, Excel (.xlsx), JSON and NDJSON" />
                   </DropZone>
                 ) : (
                   <BlockStack>
@@ -237,10 +1190,13 @@ export default function DiscountGenerator() {
                       onClick={() => {
                         setFile(null);
                         setCsvData(null);
-                        setResults(null);
-                        setOriginalData(null);
+                        setSummary(null);
+                        setOriginalHeaders([]);
                         setNameColumn("");
                         setPriceColumn("");
+                        setBackerKeyColumn("");
+                        setTierColumn("");
+                        setPresetId("");
                       }}
                     >
                       Remove file
@@ -251,9 +1207,9 @@ export default function DiscountGenerator() {
                 {isLoading && navigation.formData?.get("intent") === "upload" && (
                   <Banner status="info">
                     <BlockStack>
-                      <Text as="p">Uploading and parsing CSV file...</Text>
+                      <Text as="p">Uploading and reading file...</Text>
                       <div style={{ width: "200px" }}>
-                        <ProgressBar progress={50} size="small" />
+                        <Spinner size="small" />
                       </div>
                     </BlockStack>
                   </Banner>
@@ -261,10 +1217,21 @@ export default function DiscountGenerator() {
 
                 {csvData && (
                   <Banner status="success">
-                    CSV uploaded successfully! Found {csvData.data.length} rows with{" "}
-                    {csvData.headers.length} columns.
+                    File uploaded successfully! Found {csvData.rowCount} rows with{" "}
+                    {csvData.headers.length} columns ({csvData.format}).
                   </Banner>
                 )}
+
+                {file && csvData?.sheets?.length > 1 && (
+                  <Select
+                    label="Sheet"
+                    options={csvData.sheets.map((sheet: string) => ({ label: sheet, value: sheet }))}
+                    value={csvData.sheet}
+                    onChange={(sheet) => uploadFile(file, sheet)}
+                    helpText="The workbook has more than one sheet. Pick the one with the backers."
+                    disabled={isLoading}
+                  />
+                )}
               </BlockStack>
             </div>
           </Card>
@@ -297,6 +1264,37 @@ export default function DiscountGenerator() {
               <Card title="Configure Mapping">
                 <div style={{ padding: "20px" }}>
                   <FormLayout>
+                    <FormLayout.Group>
+                      <Select
+                        label="Mapping Preset"
+                        options={presetOptions}
+                        value={presetId}
+                        onChange={handlePresetChange}
+                        helpText="Fills in the name, email, pledge, reward tier and backer ID columns. Kickstarter, BackerKit, Indiegogo and Gamefound reports are recognised by their headers."
+                      />
+                      <TextField
+                        label="Save Mapping as Preset"
+                        value={presetName}
+                        onChange={setPresetName}
+                        placeholder="e.g. Our BackerKit export"
+                        autoComplete="off"
+                        connectedRight={
+                          <Button
+                            onClick={handleSavePreset}
+                            loading={presetFetcher.state !== "idle"}
+                            disabled={!presetName.trim()}
+                          >
+                            Save
+                          </Button>
+                        }
+                        helpText="Saving under an existing name replaces that preset. Files with the same headers use it automatically."
+                      />
+                    </FormLayout.Group>
+                    {presetId.startsWith("saved:") && (
+                      <Button variant="plain" tone="critical" onClick={handleDeletePreset}>
+                        Delete saved preset
+                      </Button>
+                    )}
                     <FormLayout.Group>
                       <Select
                         label="Customer Name Column"
@@ -310,46 +1308,660 @@ export default function DiscountGenerator() {
                         value={priceColumn}
                         onChange={setPriceColumn}
                       />
+                      <Select
+                        label="Backer Email Column (Optional)"
+                        options={[{ label: "None", value: "" }, ...columnOptions]}
+                        value={emailColumn}
+                        onChange={setEmailColumn}
+                        helpText="Checked for valid emails and used to find customers when syncing. Codes aren't limited to these customers unless you choose a Customer Email Column below."
+                      />
                     </FormLayout.Group>
+                    <FormLayout.Group>
+                      <Select
+                        label="Backer ID Column"
+                        options={[{ label: "None: every row gets a new code", value: "" }, ...columnOptions]}
+                        value={backerKeyColumn}
+                        onChange={setBackerKeyColumn}
+                        helpText="Email or backer ID that identifies each backer. Backers who already have a code in this campaign are given it again instead of a new discount, so re-running an import is safe."
+                      />
+                      <TextField
+                        label="Campaign"
+                        value={campaign}
+                        onChange={setCampaign}
+                        autoComplete="off"
+                        helpText="Backers are only recognised within the same campaign. Defaults to the file name."
+                      />
+                    </FormLayout.Group>
+                    <FormLayout.Group>
+                      <Select
+                        label="Discount Structure"
+                        options={[
+                          { label: "One discount per backer", value: "individual" },
+                          { label: "One discount per amount/tier, one code per backer", value: "grouped" },
+                        ]}
+                        value={mode}
+                        onChange={setMode}
+                        helpText={
+                          mode === "grouped"
+                            ? "Keeps the Discounts admin tidy for large campaigns."
+                            : undefined
+                        }
+                      />
+                      <Select
+                        label="Reward Tier Column (Optional)"
+                        options={[{ label: "Group by amount only", value: "" }, ...columnOptions]}
+                        value={tierColumn}
+                        onChange={setTierColumn}
+                        disabled={mode !== "grouped"}
+                      />
+                    </FormLayout.Group>
+                    {mode === "grouped" && (
+                      <Banner tone="warning">
+                        Shopify limits usage per discount, not per code. Each
+                        backer's code can be used once per customer, but by any
+                        number of customers, so a shared code keeps working. Use
+                        one discount per backer to limit every code to a single
+                        use.
+                      </Banner>
+                    )}
+                    <Select
+                      label="Customer Email Column"
+                      options={[{ label: "Any customer can use the code", value: "" }, ...columnOptions]}
+                      value={mode === "individual" ? customerEmailColumn : ""}
+                      onChange={setCustomerEmailColumn}
+                      disabled={mode !== "individual"}
+                      helpText={
+                        mode === "individual"
+                          ? "Each code only works for the Shopify customer with the backer's email. Customers who don't exist yet are created."
+                          : "Only available with one discount per backer."
+                      }
+                    />
+                    <Select
+                      label="Price Format"
+                      options={[
+                        { label: "Detect automatically", value: "auto" },
+                        { label: "1,234.56", value: "point" },
+                        { label: "1.234,56", value: "comma" },
+                      ]}
+                      value={priceFormat}
+                      onChange={(value) => setPriceFormat(value as PriceFormat)}
+                      helpText={
+                        shopCurrency
+                          ? `Currency symbols and codes are recognised. The shop's currency is ${shopCurrency}.`
+                          : "Currency symbols and codes are recognised."
+                      }
+                    />
+                    {priceCheck && priceCheck.mismatches.length > 0 && (
+                      <Banner tone="warning">
+                        {priceCheck.mismatches.map((mismatch) => (
+                          <Text as="p" key={mismatch}>
+                            {mismatch}. Discount amounts are applied in the
+                            shop's currency without conversion.
+                          </Text>
+                        ))}
+                      </Banner>
+                    )}
+                    {priceCheck && priceCheck.unreadable > 0 && (
+                      <Banner tone="warning">
+                        {priceCheck.unreadable} of the first {csvData.data.length} row(s) have a
+                        blank, negative or unreadable price and will be reported as errors.
+                        Run the pre-flight check to find them all.
+                      </Banner>
+                    )}
+                    <FormLayout.Group>
+                      <Select
+                        label="Discount Type"
+                        options={DISCOUNT_TYPE_OPTIONS}
+                        value={discountType}
+                        onChange={(value) => setDiscountType(value as DiscountType)}
+                      />
+                      {needsValue && (
+                        <Select
+                          label={isPercentage ? "Percentage Off" : "Amount Off"}
+                          options={[
+                            { label: "From a CSV column", value: "column" },
+                            { label: "Same for every backer", value: "constant" },
+                          ]}
+                          value={valueSource}
+                          onChange={setValueSource}
+                        />
+                      )}
+                    </FormLayout.Group>
+                    {needsValue && valueSource === "column" && (
+                      <Select
+                        label={isPercentage ? "Percentage Column" : "Amount Column"}
+                        options={[{ label: "Use price column", value: "" }, ...columnOptions]}
+                        value={valueColumn}
+                        onChange={setValueColumn}
+                      />
+                    )}
+                    {needsValue && valueSource === "column" && (
+                      <FormLayout.Group>
+                        <Select
+                          label="Amount Rule"
+                          options={[
+                            { label: "Use the pledge as it is", value: "pledge" },
+                            { label: "Percentage of the pledge", value: "percent" },
+                            { label: "Tier table", value: "tiers" },
+                          ]}
+                          value={amountFormula}
+                          onChange={(value) => setAmountFormula(value as AmountFormula)}
+                        />
+                        {amountFormula === "percent" && (
+                          <TextField
+                            label="Percentage of Pledge"
+                            type="number"
+                            value={pledgePercent}
+                            onChange={setPledgePercent}
+                            suffix="%"
+                            autoComplete="off"
+                          />
+                        )}
+                        <TextField
+                          label="Cap (Optional)"
+                          type="number"
+                          value={amountCap}
+                          onChange={setAmountCap}
+                          helpText="No backer gets more than this"
+                          autoComplete="off"
+                        />
+                      </FormLayout.Group>
+                    )}
+                    {needsValue && valueSource === "column" && amountFormula === "tiers" && (
+                      <BlockStack gap="200">
+                        {amountTiers.map((tier, index) => (
+                          <InlineStack key={index} gap="200" blockAlign="end">
+                            <TextField
+                              label="Pledges from"
+                              type="number"
+                              value={tier.minPledge}
+                              onChange={(minPledge) =>
+                                setAmountTiers(
+                                  amountTiers.map((current, i) =>
+                                    i === index ? { ...current, minPledge } : current
+                                  )
+                                )
+                              }
+                              autoComplete="off"
+                            />
+                            <TextField
+                              label={isPercentage ? "Get (%)" : "Get (amount off)"}
+                              type="number"
+                              value={tier.amount}
+                              onChange={(amount) =>
+                                setAmountTiers(
+                                  amountTiers.map((current, i) =>
+                                    i === index ? { ...current, amount } : current
+                                  )
+                                )
+                              }
+                              autoComplete="off"
+                            />
+                            <Button
+                              variant="plain"
+                              tone="critical"
+                              disabled={amountTiers.length === 1}
+                              onClick={() =>
+                                setAmountTiers(amountTiers.filter((_, i) => i !== index))
+                              }
+                            >
+                              Remove
+                            </Button>
+                          </InlineStack>
+                        ))}
+                        <div>
+                          <Button
+                            onClick={() =>
+                              setAmountTiers([...amountTiers, { minPledge: "", amount: "" }])
+                            }
+                          >
+                            Add tier
+                          </Button>
+                        </div>
+                      </BlockStack>
+                    )}
                     <TextField
-                      label="Name Transform Function (Optional)"
-                      value={transformFunction}
-                      onChange={setTransformFunction}
-                      multiline={4}
-                      helpText="JavaScript function to transform customer names. Use 'name' as the input variable."
+                      label="Minimum Pledge (Optional)"
+                      type="number"
+                      value={minimumPledge}
+                      onChange={setMinimumPledge}
+                      error={amountRulesError || undefined}
+                      helpText="Backers who pledged less don't get a code"
+                      autoComplete="off"
                     />
-
-                    {nameColumn && priceColumn && csvData.data[0] && (
-                      <Banner status="info">
+                    {needsValue && valueSource === "constant" && (
+                      <TextField
+                        label={isPercentage ? "Percentage" : "Amount"}
+                        type="number"
+                        value={constantValue}
+                        onChange={setConstantValue}
+                        suffix={isPercentage ? "%" : undefined}
+                        autoComplete="off"
+                      />
+                    )}
+                    {discountType === "bxgy" && (
+                      <FormLayout.Group>
+                        <TextField
+                          label="Customer Buys (Quantity)"
+                          type="number"
+                          min={1}
+                          value={buyQuantity}
+                          onChange={setBuyQuantity}
+                          autoComplete="off"
+                        />
+                        <TextField
+                          label="Customer Gets (Quantity)"
+                          type="number"
+                          min={1}
+                          value={getQuantity}
+                          onChange={setGetQuantity}
+                          helpText="Set the percentage to 100 to make these items free."
+                          autoComplete="off"
+                        />
+                      </FormLayout.Group>
+                    )}
+                    {discountType !== "free_shipping" && (
+                      <FormLayout.Group>
+                        <Select
+                          label="Applies To"
+                          options={
+                            discountType === "bxgy"
+                              ? APPLIES_TO_OPTIONS.filter(({ value }) => value !== "all")
+                              : APPLIES_TO_OPTIONS
+                          }
+                          value={appliesTo}
+                          onChange={handleAppliesToChange}
+                          helpText={
+                            discountType === "bxgy"
+                              ? "Backers buy and get these items."
+                              : undefined
+                          }
+                        />
+                        {appliesTo === "column" ? (
+                          <Select
+                            label="Reward Items Column"
+                            options={[{ label: "Select column...", value: "" }, ...columnOptions]}
+                            value={itemsColumn}
+                            onChange={setItemsColumn}
+                            helpText="Product handles or variant SKUs, separated by commas. Each backer's code only applies to their own reward items."
+                          />
+                        ) : (
+                          appliesTo !== "all" && (
+                            <BlockStack gap="200">
+                              <Text as="p">
+                                {pickedItems.length
+                                  ? `${pickedItems.length} ${appliesTo}${pickedItems.length === 1 ? "" : "s"} selected`
+                                  : `No ${appliesTo}s selected`}
+                              </Text>
+                              {pickedItems.some(({ title }) => title) && (
+                                <Text as="p" tone="subdued">
+                                  {pickedItems.map(({ id, title }) => title ?? id).join(", ")}
+                                </Text>
+                              )}
+                              <div>
+                                <Button onClick={handlePickItems}>
+                                  {pickedItems.length ? "Change selection" : `Select ${appliesTo}s`}
+                                </Button>
+                              </div>
+                            </BlockStack>
+                          )
+                        )}
+                      </FormLayout.Group>
+                    )}
+                    <FormLayout.Group>
+                      <TextField
+                        label="Starts"
+                        type="datetime-local"
+                        value={startsAt}
+                        onChange={setStartsAt}
+                        helpText="Leave blank to start each code as soon as it's created"
+                        autoComplete="off"
+                      />
+                      <Select
+                        label="Ends"
+                        options={ENDS_OPTIONS}
+                        value={endsMode}
+                        onChange={setEndsMode}
+                      />
+                      {endsMode === "date" && (
+                        <TextField
+                          label="End Date"
+                          type="datetime-local"
+                          value={endsAt}
+                          onChange={setEndsAt}
+                          autoComplete="off"
+                        />
+                      )}
+                      {endsMode === "days" && (
+                        <TextField
+                          label="Expires After"
+                          type="number"
+                          min={1}
+                          value={expiresAfterDays}
+                          onChange={setExpiresAfterDays}
+                          suffix="days"
+                          autoComplete="off"
+                        />
+                      )}
+                    </FormLayout.Group>
+                    <FormLayout.Group>
+                      {discountType !== "bxgy" && (
+                        <Select
+                          label="Minimum Requirement"
+                          options={MINIMUM_OPTIONS}
+                          value={minimumType}
+                          onChange={setMinimumType}
+                        />
+                      )}
+                      {discountType !== "bxgy" && minimumType !== "none" && (
+                        <TextField
+                          label={minimumType === "subtotal" ? "Minimum Subtotal" : "Minimum Quantity"}
+                          type="number"
+                          min={minimumType === "quantity" ? 1 : 0}
+                          value={minimumValue}
+                          onChange={setMinimumValue}
+                          autoComplete="off"
+                        />
+                      )}
+                      <Select
+                        label="Total Usage Limit"
+                        options={[
+                          {
+                            label:
+                              mode === "grouped"
+                                ? "No limit for the group (default)"
+                                : "One use per code (default)",
+                            value: "default",
+                          },
+                          { label: "Limit the number of uses", value: "limited" },
+                          { label: "No limit", value: "unlimited" },
+                        ]}
+                        value={usageMode}
+                        onChange={setUsageMode}
+                      />
+                      {usageMode === "limited" && (
+                        <TextField
+                          label="Uses"
+                          type="number"
+                          min={1}
+                          value={usageLimit}
+                          onChange={setUsageLimit}
+                          helpText={
+                            mode === "grouped"
+                              ? "Shared by every code in a group"
+                              : "Uses of each backer's code"
+                          }
+                          autoComplete="off"
+                        />
+                      )}
+                    </FormLayout.Group>
+                    <Checkbox
+                      label="Limit to one use per customer"
+                      checked={oncePerCustomer}
+                      onChange={setOncePerCustomer}
+                    />
+                    <BlockStack gap="100">
+                      <Text as="p">Combines with</Text>
+                      <Checkbox
+                        label="Product discounts"
+                        checked={combinesWith.productDiscounts}
+                        onChange={(checked) =>
+                          setCombinesWith({ ...combinesWith, productDiscounts: checked })
+                        }
+                      />
+                      <Checkbox
+                        label="Order discounts"
+                        checked={combinesWith.orderDiscounts}
+                        onChange={(checked) =>
+                          setCombinesWith({ ...combinesWith, orderDiscounts: checked })
+                        }
+                      />
+                      <Checkbox
+                        label="Shipping discounts"
+                        checked={combinesWith.shippingDiscounts}
+                        onChange={(checked) =>
+                          setCombinesWith({ ...combinesWith, shippingDiscounts: checked })
+                        }
+                      />
+                    </BlockStack>
+                    {constraintsError && (
+                      <Text as="p" tone="critical">
+                        {constraintsError}
+                      </Text>
+                    )}
+                    <FormLayout.Group condensed>
+                      <TextField
+                        label="Code Prefix"
+                        value={codePrefix}
+                        onChange={setCodePrefix}
+                        autoComplete="off"
+                      />
+                      <TextField
+                        label="Code Format"
+                        value={codeTemplate}
+                        onChange={setCodeTemplate}
+                        error={codeFormatError || undefined}
+                        helpText="Use {name}, {column:Column Name}, {seq} or {seq:6}, {random:8} and {checksum}. Include {seq} or {random:N} so every code is unique."
+                        autoComplete="off"
+                      />
+                      <TextField
+                        label="Code Suffix"
+                        value={codeSuffix}
+                        onChange={setCodeSuffix}
+                        autoComplete="off"
+                      />
+                    </FormLayout.Group>
+                    {codePreview.length > 0 && (
+                      <Text as="p" tone="subdued">
+                        Example codes: {codePreview.join(", ")}
+                      </Text>
+                    )}
+                    {run?.transformError && (
+                      <Banner tone="warning">
                         <Text as="p">
-                          <strong>Preview:</strong><br />
-                          Name: {csvData.data[0][nameColumn]} → Price: ${csvData.data[0][priceColumn]}
+                          This run's JavaScript name transform could not be
+                          converted to steps ({run.transformError}). Recreate
+                          it with the steps below:
                         </Text>
+                        <pre>{run.legacyTransform}</pre>
                       </Banner>
                     )}
+                    <TransformStepsEditor
+                      steps={transformSteps}
+                      onChange={setTransformSteps}
+                      error={transformError}
+                    />
+
+                    {nameColumn && priceColumn && csvData.data[0] && (
+                      <DataTable
+                        columnContentTypes={["text", "text", "text", "text"]}
+                        headings={["Name", "Transformed Name", "Pledge", "Discount"]}
+                        rows={csvData.data
+                          .slice(0, TRANSFORM_PREVIEW_ROWS)
+                          .map((row: any) => {
+                            const { pledge, discount } = previewAmounts(row);
+                            return [
+                              row[nameColumn],
+                              transformedName(row) || "(empty, row will fail)",
+                              pledge,
+                              discount,
+                            ];
+                          })}
+                      />
+                    )}
                   </FormLayout>
                 </div>
               </Card>
             </Layout.Section>
 
+            {nameColumn && priceColumn && (
+              <Layout.Section>
+                <Card>
+                  <div style={{ padding: "20px" }}>
+                    <BlockStack gap="300">
+                      <Text variant="headingMd" as="h3">
+                        Pre-flight Check
+                      </Text>
+                      <Text as="p" tone="subdued">
+                        Scans every row for empty names, unreadable or unusual pledges, duplicate
+                        backers, rows with missing or extra columns and garbled characters. Select
+                        rows to leave them out of the run.
+                      </Text>
+                      <div>
+                        <Button
+                          onClick={handleValidate}
+                          loading={validationFetcher.state !== "idle"}
+                        >
+                          {validationReport ? "Check Again" : "Check All Rows"}
+                        </Button>
+                      </div>
+                      {validationReport &&
+                        (validationReport.flaggedRows === 0 ? (
+                          <Banner tone="success">
+                            <Text as="p">
+                              No problems found in {validationReport.rowCount} rows.
+                            </Text>
+                          </Banner>
+                        ) : (
+                          <Text as="p">
+                            {validationReport.flaggedRows} of {validationReport.rowCount} rows
+                            need a look.
+                          </Text>
+                        ))}
+                      {excludedRows.length > 0 && (
+                        <InlineStack gap="200" blockAlign="center">
+                          <Text as="p">
+                            Excluded rows: {excludedRows.join(", ")}
+                          </Text>
+                          <Button variant="plain" onClick={() => setExcludedRows([])}>
+                            Include all
+                          </Button>
+                        </InlineStack>
+                      )}
+                    </BlockStack>
+                  </div>
+                  {reportIssues.length > 0 && (
+                    <IndexTable
+                      resourceName={{ singular: "issue", plural: "issues" }}
+                      itemCount={reportIssues.length}
+                      selectedItemsCount={
+                        allResourcesSelected ? "All" : selectedResources.length
+                      }
+                      onSelectionChange={handleSelectionChange}
+                      headings={[
+                        { title: "Row" },
+                        { title: "Backer" },
+                        { title: "Problem" },
+                        { title: "Run" },
+                      ]}
+                      promotedBulkActions={[
+                        {
+                          content: "Exclude rows",
+                          onAction: () => setSelectedRowsExcluded(true),
+                        },
+                        {
+                          content: "Include rows",
+                          onAction: () => setSelectedRowsExcluded(false),
+                        },
+                      ]}
+                    >
+                      {reportGroups.map(({ kind, label, severity, issues, start }) => {
+                        const ids = issues.map((issue) => `${issue.kind}-${issue.row}`);
+                        const selectedCount = ids.filter((id) =>
+                          selectedResources.includes(id)
+                        ).length;
+
+                        return (
+                          <React.Fragment key={kind}>
+                            <IndexTable.Row
+                              rowType="subheader"
+                              id={`group-${kind}`}
+                              position={start}
+                              selectionRange={[start, start + issues.length - 1]}
+                              selected={
+                                selectedCount === ids.length
+                                  ? true
+                                  : selectedCount > 0
+                                    ? "indeterminate"
+                                    : false
+                              }
+                              accessibilityLabel={`Select all ${label.toLowerCase()}`}
+                            >
+                              <IndexTable.Cell
+                                as="th"
+                                id={`group-${kind}`}
+                                colSpan={4}
+                                scope="colgroup"
+                              >
+                                <InlineStack gap="200" blockAlign="center">
+                                  <Text as="span" fontWeight="semibold">
+                                    {label}
+                                  </Text>
+                                  <Badge tone={severity === "error" ? "critical" : "warning"}>
+                                    {String(issues.length)}
+                                  </Badge>
+                                </InlineStack>
+                              </IndexTable.Cell>
+                            </IndexTable.Row>
+                            {issues.map((issue, index) => (
+                              <IndexTable.Row
+                                key={ids[index]}
+                                id={ids[index]}
+                                position={start + index}
+                                selected={selectedResources.includes(ids[index])}
+                                tone={excludedRows.includes(issue.row) ? "subdued" : undefined}
+                              >
+                                <IndexTable.Cell headers={`group-${kind}`}>
+                                  {issue.row}
+                                </IndexTable.Cell>
+                                <IndexTable.Cell>{issue.customer}</IndexTable.Cell>
+                                <IndexTable.Cell>{issue.message}</IndexTable.Cell>
+                                <IndexTable.Cell>
+                                  {excludedRows.includes(issue.row) ? (
+                                    <Badge>Excluded</Badge>
+                                  ) : (
+                                    "Included"
+                                  )}
+                                </IndexTable.Cell>
+                              </IndexTable.Row>
+                            ))}
+                          </React.Fragment>
+                        );
+                      })}
+                    </IndexTable>
+                  )}
+                </Card>
+              </Layout.Section>
+            )}
+
             {nameColumn && priceColumn && (
               <Layout.Section>
                 <Card title="Generate Discount Codes">
                   <div style={{ padding: "20px" }}>
                     <BlockStack>
-                      <Button
-                        variant="primary"
-                        onClick={handleGenerate}
-                        loading={isLoading && navigation.formData?.get("intent") === "generate"}
-                        disabled={!nameColumn || !priceColumn}
-                      >
-                        {isLoading && navigation.formData?.get("intent") === "generate"
-                          ? "Generating..."
-                          : "Generate Discount Codes"
-                        }
-                      </Button>
+                      <ButtonGroup>
+                        <Button
+                          variant="primary"
+                          onClick={() => handleGenerate(false)}
+                          loading={isLoading && navigation.formData?.get("intent") === "generate" && navigation.formData?.get("dryRun") !== "true"}
+                          disabled={!nameColumn || !priceColumn}
+                        >
+                          {isLoading && navigation.formData?.get("intent") === "generate" && navigation.formData?.get("dryRun") !== "true"
+                            ? "Generating..."
+                            : "Generate Discount Codes"
+                          }
+                        </Button>
+                        <Button
+                          onClick={() => handleGenerate(true)}
+                          loading={isLoading && navigation.formData?.get("dryRun") === "true"}
+                          disabled={!nameColumn || !priceColumn}
+                        >
+                          Dry Run
+                        </Button>
+                      </ButtonGroup>
                       <Text variant="bodySm" as="p" tone="subdued">
                         This will create individual discount codes for each customer based on their backing amount.
+                        A dry run checks every row and shows the codes it would create, without changing anything in Shopify.
                       </Text>
                     </BlockStack>
                   </div>
@@ -359,74 +1971,137 @@ export default function DiscountGenerator() {
           </>
         )}
 
-        {results && (
+        {run?.status === "failed" && (
+          <Layout.Section>
+            <Banner tone="critical">
+              Generation run failed: {run.lastError}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {runInFlight && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack gap="200" blockAlign="center">
+                  <Spinner size="small" />
+                  <Text variant="headingMd" as="h3">
+                    {progress?.status === "running"
+                      ? progress.processed === progress.total && run?.customerSync
+                        ? "Syncing codes to customers"
+                        : "Generating discount codes"
+                      : "Waiting for the generation job to start"}
+                  </Text>
+                </InlineStack>
+                {progress && (
+                  <>
+                    <ProgressBar
+                      progress={
+                        progress.total
+                          ? (progress.processed / progress.total) * 100
+                          : 0
+                      }
+                      size="small"
+                    />
+                    <Text variant="bodyMd" as="p">
+                      Processed: {progress.processed} of {progress.total} |
+                      Success: {progress.successful} | Errors: {progress.errors}
+                      {progress.etaSeconds !== null &&
+                        ` | About ${formatDuration(progress.etaSeconds)} remaining`}
+                    </Text>
+                  </>
+                )}
+                <Text variant="bodySm" as="p" tone="subdued">
+                  Codes are created in the background, so you can leave this
+                  page and come back later.
+                </Text>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
+        {summary && runResults && (
           <Layout.Section>
             <Card>
               <div style={{ padding: "20px" }}>
                 <BlockStack>
                   <Text variant="headingMd" as="h3">
-                    Generation Results
+                    {run?.dryRun ? "Dry Run Results" : "Generation Results"}
                   </Text>
+                  {run?.dryRun && (
+                    <Banner tone="info">
+                      <Text as="p">
+                        Nothing was created in Shopify. Rows marked
+                        "would_create" are ready; fix any errors, then
+                        generate the codes for real.
+                      </Text>
+                    </Banner>
+                  )}
                   <Text variant="bodyMd" as="p">
-                    Total: {results.summary.total} | Success: {results.summary.successful} |
-                    Errors: {results.summary.errors}
+                    Total: {summary.total} | {run?.dryRun ? "Would create" : "Success"}: {summary.successful} |
+                    Errors: {summary.errors}
                   </Text>
-                  {results.summary.successful > 0 && (
+                  {summary.successful > 0 && (
                     <ProgressBar
-                      progress={(results.summary.successful / results.summary.total) * 100}
+                      progress={(summary.successful / summary.total) * 100}
                       size="small"
                     />
                   )}
+                  {runId && !runInFlight && (
+                    <RunExport
+                      runId={runId}
+                      originalHeaders={originalHeaders}
+                    />
+                  )}
+                  {runId && !runInFlight && !run?.dryRun && summary.successful > 0 && (
+                    <CustomerSync
+                      runId={runId}
+                      customerSync={run?.customerSync ?? null}
+                      counts={run?.syncCounts ?? {}}
+                    />
+                  )}
                   <ButtonGroup>
-                    <Button
-                      onClick={handleExportCSV}
-                      loading={isLoading && navigation.formData?.get("intent") === "export-csv"}
-                    >
-                      {isLoading && navigation.formData?.get("intent") === "export-csv"
-                        ? "Exporting..."
-                        : "Export CSV with Discount Codes"
-                      }
-                    </Button>
-                    <Button variant="plain" onClick={() => {
-                      const resultsOnly = results.results.map((r: any) => ({
-                        customer: r.customer,
-                        discountCode: r.discountCode || '',
-                        amount: r.amount || '',
-                        status: r.status,
-                        message: r.message
-                      }));
-                      const csvContent = [
-                        'Customer,Discount Code,Amount,Status,Message',
-                        ...resultsOnly.map((r: any) =>
-                          `"${r.customer}","${r.discountCode}","${r.amount}","${r.status}","${r.message}"`
-                        )
-                      ].join('\n');
-
-                      const blob = new Blob([csvContent], { type: 'text/csv' });
-                      const url = URL.createObjectURL(blob);
-                      const a = document.createElement('a');
-                      a.href = url;
-                      a.download = `discount_results_${new Date().toISOString().split('T')[0]}.csv`;
-                      a.click();
-                      URL.revokeObjectURL(url);
-                    }}>
-                      Export Results Only
-                    </Button>
+                    {runId && !runInFlight && summary.errors > 0 && (
+                      <Button
+                        onClick={handleRetryFailed}
+                        loading={isLoading && navigation.formData?.get("intent") === "retry-failed"}
+                      >
+                        Retry failed rows
+                      </Button>
+                    )}
                   </ButtonGroup>
                 </BlockStack>
               </div>
               <DataTable
-                columnContentTypes={["text", "text", "text", "text", "numeric", "text"]}
-                headings={["Row", "Customer", "Status", "Discount Code", "Amount", "Message"]}
-                rows={results.results.map((result: any) => [
+                columnContentTypes={["text", "text", "text", "text", "text", "numeric", "numeric", "text", "text"]}
+                headings={["Row", "Customer", "Status", "Discount Code", "Shopify Customer", "Pledge", "Amount", "Message", "Customer Sync"]}
+                rows={runResults.results.map((result) => [
                   result.row,
                   result.customer,
                   result.status,
                   result.discountCode || "-",
-                  result.amount ? `$${result.amount.toFixed(2)}` : "-",
+                  result.customerId ? result.customerId.split("/").pop() : "-",
+                  result.pledge ?? "-",
+                  formatAmount(result.amount, run?.settings?.type ?? discountType),
                   result.message,
+                  result.syncStatus
+                    ? `${result.syncStatus}: ${result.syncMessage}`
+                    : "-",
                 ])}
               />
+              {runResults.pageCount > 1 && (
+                <div style={{ padding: "16px" }}>
+                  <InlineStack align="center">
+                    <Pagination
+                      hasPrevious={runResults.page > 1}
+                      onPrevious={() => showResultsPage(runResults.page - 1)}
+                      hasNext={runResults.page < runResults.pageCount}
+                      onNext={() => showResultsPage(runResults.page + 1)}
+                      label={`Page ${runResults.page} of ${runResults.pageCount}`}
+                    />
+                  </InlineStack>
+                </div>
+              )}
             </Card>
           </Layout.Section>
         )}
@@ -434,3 +2109,206 @@ export default function DiscountGenerator() {
     </Page>
   );
 }
+
+function TransformStepsEditor({
+  steps,
+  onChange,
+  error,
+}: {
+  steps: TransformStep[];
+  onChange: (steps: TransformStep[]) => void;
+  error: string | null;
+}) {
+  const updateStep = (index: number, changes: Partial<TransformStep>) => {
+    onChange(
+      steps.map((step, i) =>
+        i === index ? ({ ...step, ...changes } as TransformStep) : step
+      )
+    );
+  };
+
+  return (
+    <BlockStack gap="200">
+      <Text variant="headingSm" as="h4">
+        Name Transform (Optional)
+      </Text>
+      <Text as="p" tone="subdued">
+        Steps run in order on each backer's name.
+      </Text>
+      {steps.map((step, index) => (
+        <InlineStack key={index} gap="200" blockAlign="end" wrap={false}>
+          <Select
+            label={`Step ${index + 1}`}
+            options={Object.entries(TRANSFORM_STEP_LABELS).map(([value, label]) => ({
+              label,
+              value,
+            }))}
+            value={step.type}
+            onChange={(type) =>
+              onChange(
+                steps.map((current, i) =>
+                  i === index
+                    ? createTransformStep(type as TransformStepType)
+                    : current
+                )
+              )
+            }
+          />
+          {step.type === "case" && (
+            <Select
+              label="Case"
+              options={[
+                { label: "UPPER CASE", value: "upper" },
+                { label: "lower case", value: "lower" },
+                { label: "Title Case", value: "title" },
+              ]}
+              value={step.mode}
+              onChange={(mode) =>
+                updateStep(index, { mode } as Partial<TransformStep>)
+              }
+            />
+          )}
+          {step.type === "replace" && (
+            <>
+              <TextField
+                label="Find"
+                value={step.find}
+                onChange={(find) => updateStep(index, { find })}
+                autoComplete="off"
+              />
+              <TextField
+                label="Replace with"
+                value={step.replaceWith}
+                onChange={(replaceWith) => updateStep(index, { replaceWith })}
+                autoComplete="off"
+              />
+              <Select
+                label="Match"
+                options={[
+                  { label: "Exact text", value: "text" },
+                  { label: "Regular expression", value: "regex" },
+                ]}
+                value={step.regex ? "regex" : "text"}
+                onChange={(match) => updateStep(index, { regex: match === "regex" })}
+              />
+              <Select
+                label="Replace"
+                options={[
+                  { label: "Every match", value: "all" },
+                  { label: "First match only", value: "first" },
+                ]}
+                value={step.firstOnly ? "first" : "all"}
+                onChange={(replace) => updateStep(index, { firstOnly: replace === "first" })}
+              />
+            </>
+          )}
+          {step.type === "extract" && (
+            <>
+              <TextField
+                label="Pattern"
+                value={step.pattern}
+                onChange={(pattern) => updateStep(index, { pattern })}
+                autoComplete="off"
+              />
+              <TextField
+                label="Group"
+                type="number"
+                min={0}
+                value={String(step.group ?? 0)}
+                onChange={(group) => updateStep(index, { group: Number(group) })}
+                autoComplete="off"
+              />
+            </>
+          )}
+          {step.type === "split" && (
+            <>
+              <TextField
+                label="Separator"
+                value={step.separator}
+                onChange={(separator) => updateStep(index, { separator })}
+                autoComplete="off"
+              />
+              <TextField
+                label="Keep part"
+                type="number"
+                value={String(step.index)}
+                onChange={(value) => updateStep(index, { index: Number(value) })}
+                helpText="0 is the first part, -1 the last"
+                autoComplete="off"
+              />
+            </>
+          )}
+          <Button
+            variant="plain"
+            tone="critical"
+            onClick={() => onChange(steps.filter((_, i) => i !== index))}
+          >
+            Remove
+          </Button>
+        </InlineStack>
+      ))}
+      {error && (
+        <Text as="p" tone="critical">
+          {error}
+        </Text>
+      )}
+      <div>
+        <Button onClick={() => onChange([...steps, createTransformStep("trim")])}>
+          Add step
+        </Button>
+      </div>
+    </BlockStack>
+  );
+}
+
+function pickedItemsFor(
+  appliesTo: string,
+  picked: PickedResource[]
+): DiscountItems | undefined {
+  if (appliesTo === "all" || appliesTo === "column" || !picked.length) {
+    return undefined;
+  }
+
+  const ids = picked.map(({ id }) => id);
+  return {
+    productIds: appliesTo === "product" ? ids : [],
+    variantIds: appliesTo === "variant" ? ids : [],
+    collectionIds: appliesTo === "collection" ? ids : [],
+  };
+}
+
+function formatAmount(amount: number | undefined, type: string) {
+  if (!amount) {
+    return "-";
+  }
+
+  return type === "percentage" || type === "bxgy"
+    ? `${amount}%`
+    : `$${amount.toFixed(2)}`;
+}
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}min`;
+}
+
+// datetime-local inputs work in the browser's time zone without an offset;
+// constraints store ISO timestamps
+function fromLocalDateTime(value: string) {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+function toLocalDateTime(iso: string) {
+  const date = new Date(iso);
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
@@ -0,0 +1,285 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useFetcher,
+  useLoaderData,
+  useNavigate,
+  useNavigation,
+  useRevalidator,
+  useSearchParams,
+} from "@remix-run/react";
+import { useCallback, useEffect, useState } from "react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  DataTable,
+  InlineStack,
+  Layout,
+  Page,
+  Pagination,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { CustomerSync } from "../components/CustomerSync";
+import { RunExport } from "../components/RunExport";
+import { authenticate } from "../shopify.server";
+import { getGenerationRun, listRunResults } from "../utils/runs.server";
+import {
+  ROW_STATUS_OPTIONS,
+  rowStatusLabel,
+  rowStatusTone,
+  runStatusLabel,
+  runStatusTone,
+  syncStatusLabel,
+  syncStatusTone,
+} from "../utils/run-status";
+import type { loader as progressLoader } from "./app.runs.$runId.progress";
+
+const PROGRESS_POLL_INTERVAL_MS = 3000;
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const run = await getGenerationRun(session.shop, params.runId!);
+  if (!run) {
+    throw new Response("Run not found", { status: 404 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const status = ROW_STATUS_OPTIONS.some(
+    (option) => option.value === searchParams.get("status")
+  )
+    ? searchParams.get("status")
+    : null;
+  const search = searchParams.get("q") ?? "";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+  const results = await listRunResults(run.id, { status, search, page });
+
+  return json({ run, ...results, status, search });
+};
+
+export default function RunDetails() {
+  const { run, results, page, pageCount, matching, status, search } =
+    useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+  const { revalidate } = useRevalidator();
+  const progressFetcher = useFetcher<typeof progressLoader>();
+  const loadProgress = progressFetcher.load;
+  const [query, setQuery] = useState(search);
+
+  const { summary } = run;
+  const runInFlight = run.status === "queued" || run.status === "running";
+  const progress =
+    progressFetcher.data && "progress" in progressFetcher.data
+      ? progressFetcher.data.progress
+      : null;
+
+  // Poll the counts while the worker has the run, e.g. during a customer sync
+  useEffect(() => {
+    if (!runInFlight) return;
+
+    const poll = () => loadProgress(`/app/runs/${run.id}/progress`);
+    poll();
+    const interval = setInterval(poll, PROGRESS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [run.id, runInFlight, loadProgress]);
+
+  // Reload the rows once, when the worker lets go of the run
+  const progressStatus = progress?.status;
+  useEffect(() => {
+    if (
+      runInFlight &&
+      (progressStatus === "completed" || progressStatus === "failed")
+    ) {
+      revalidate();
+    }
+  }, [runInFlight, progressStatus, revalidate]);
+
+  // The stored counts only catch up once per worker batch
+  const counts = runInFlight && progress ? progress : summary;
+
+  const showResults = useCallback(
+    (filters: { status?: string | null; search?: string; page?: number }) => {
+      const params = new URLSearchParams();
+      const nextStatus = filters.status !== undefined ? filters.status : status;
+      const nextSearch = (filters.search ?? search).trim();
+
+      if (nextStatus) params.set("status", nextStatus);
+      if (nextSearch) params.set("q", nextSearch);
+      if (filters.page && filters.page > 1) params.set("page", String(filters.page));
+
+      setSearchParams(params, { preventScrollReset: true });
+    },
+    [setSearchParams, status, search]
+  );
+
+  return (
+    <Page
+      title={run.fileName ?? "Untitled upload"}
+      subtitle={`Run started ${new Date(run.createdAt).toLocaleString()}`}
+      titleMetadata={
+        <InlineStack gap="100">
+          <Badge tone={runStatusTone(run.status, summary.errors)}>
+            {runStatusLabel(run.status)}
+          </Badge>
+          {run.dryRun && <Badge>Dry run</Badge>}
+        </InlineStack>
+      }
+      backAction={{ content: "Run History", onAction: () => navigate("/app/runs") }}
+      secondaryActions={[
+        {
+          content: "Open in Discount Generator",
+          onAction: () => navigate(`/app/discount-generator?runId=${run.id}`),
+        },
+        ...(run.dryRun
+          ? []
+          : [
+              {
+                content: "Redemptions",
+                onAction: () => navigate(`/app/runs/${run.id}/redemptions`),
+              },
+            ]),
+      ]}
+    >
+      <Layout>
+        {run.lastError && (
+          <Layout.Section>
+            <Banner tone="warning" title="The run stopped early">
+              {run.lastError}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Summary
+              </Text>
+              <Text as="p">
+                Total: {summary.total} | {run.dryRun ? "Would create" : "Success"}:{" "}
+                {counts.successful} | Errors: {counts.errors}
+                {runInFlight && progress && ` | Processed: ${progress.processed}`}
+              </Text>
+              <Text as="p" tone="subdued">
+                {run.mode === "grouped"
+                  ? "One discount per amount/tier, one code per backer"
+                  : "One discount per backer"}
+              </Text>
+              <Text as="h3" variant="headingSm">
+                Exports
+              </Text>
+              <RunExport runId={run.id} originalHeaders={run.originalHeaders} />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {!run.dryRun && !runInFlight && summary.successful > 0 && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Customer Sync
+                </Text>
+                <CustomerSync runId={run.id} customerSync={run.customerSync} counts={run.syncCounts} />
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">
+                Backers
+              </Text>
+              <InlineStack gap="300" blockAlign="end" wrap={false}>
+                <div style={{ flexGrow: 1 }}>
+                  <form
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      showResults({ search: query, page: 1 });
+                    }}
+                  >
+                    <TextField
+                      label="Search"
+                      value={query}
+                      onChange={setQuery}
+                      placeholder="Backer name or discount code"
+                      autoComplete="off"
+                      clearButton
+                      onClearButtonClick={() => {
+                        setQuery("");
+                        showResults({ search: "", page: 1 });
+                      }}
+                      connectedRight={<Button submit>Search</Button>}
+                    />
+                  </form>
+                </div>
+                <Select
+                  label="Status"
+                  options={[{ label: "All statuses", value: "" }, ...ROW_STATUS_OPTIONS]}
+                  value={status ?? ""}
+                  onChange={(value) => showResults({ status: value || null, page: 1 })}
+                />
+              </InlineStack>
+
+              <DataTable
+                columnContentTypes={["numeric", "text", "text", "text", "numeric", "numeric", "text", "text"]}
+                headings={["Row", "Customer", "Status", "Discount Code", "Pledge", "Amount", "Message", "Customer Sync"]}
+                rows={results.map((result) => [
+                  result.row,
+                  result.customer,
+                  <Badge key="status" tone={rowStatusTone(result.status)}>
+                    {rowStatusLabel(result.status)}
+                  </Badge>,
+                  result.discountCode || "-",
+                  result.pledge ?? "-",
+                  result.amount ?? "-",
+                  result.message,
+                  result.syncStatus ? (
+                    <BlockStack key="sync" gap="100">
+                      <Badge tone={syncStatusTone(result.syncStatus)}>
+                        {syncStatusLabel(result.syncStatus)}
+                      </Badge>
+                      {result.syncMessage && (
+                        <Text as="span" variant="bodySm" tone="subdued">
+                          {result.syncMessage}
+                        </Text>
+                      )}
+                    </BlockStack>
+                  ) : (
+                    "-"
+                  ),
+                ])}
+                footerContent={
+                  navigation.state === "loading"
+                    ? "Loading…"
+                    : `${matching} of ${summary.total} backers`
+                }
+              />
+
+              {pageCount > 1 && (
+                <InlineStack align="center">
+                  <Pagination
+                    hasPrevious={page > 1}
+                    onPrevious={() => showResults({ page: page - 1 })}
+                    hasNext={page < pageCount}
+                    onNext={() => showResults({ page: page + 1 })}
+                    label={`Page ${page} of ${pageCount}`}
+                  />
+                </InlineStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,73 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import {
+  generateRunExport,
+  generateSurveyCSV,
+  type ExportInput,
+} from "../utils/csv-export.server";
+import {
+  isExportProfile,
+  type ExportColumn,
+  type ExportProfile,
+} from "../utils/export-profiles";
+import { getGenerationRun, loadRunRows } from "../utils/runs.server";
+
+// Builds a CSV export of a run from its stored rows, so past runs can be
+// downloaded again without the original file.
+//   ?profile=full|summary|successful|errors
+//   &columns=[{"key":"discountCode","header":"Code"}, ...]  (optional)
+// or, for re-import into a platform's surveys,
+//   ?template=backerkit|kickstarter
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const run = await getGenerationRun(session.shop, params.runId!);
+  if (!run) {
+    return json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const template = searchParams.get("template");
+  const profile = searchParams.get("profile") || "full";
+  if (!template && !isExportProfile(profile)) {
+    return json({ error: "Unknown export profile" }, { status: 400 });
+  }
+
+  const { results, originalData } = await loadRunRows(run.id);
+  const input: ExportInput = {
+    headers: run.originalHeaders,
+    originalData,
+    results,
+    generatedAt: run.finishedAt ?? run.createdAt,
+  };
+
+  let csvContent: string;
+  try {
+    if (template) {
+      csvContent = generateSurveyCSV(template, input, [
+        run.mapping.backerKeyColumn,
+        run.settings.customerEmailColumn,
+      ]);
+    } else {
+      const columns: ExportColumn[] | undefined = searchParams.has("columns")
+        ? JSON.parse(searchParams.get("columns")!)
+        : undefined;
+
+      csvContent = generateRunExport(profile as ExportProfile, input, { columns });
+    }
+  } catch (error: any) {
+    return json({ error: error.message }, { status: 400 });
+  }
+
+  const baseName = (run.fileName ?? "discounts")
+    .replace(/\.[^.]*$/, "")
+    .replace(/[^\w-]+/g, "_");
+  const date = run.createdAt.toISOString().split("T")[0];
+
+  return new Response(csvContent, {
+    headers: {
+      "Content-Type": "text/csv",
+      "Content-Disposition": `attachment; filename="${baseName}_${template ? `${template}_survey` : profile}_${date}.csv"`,
+    },
+  });
+};
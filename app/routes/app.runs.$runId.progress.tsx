@@ -0,0 +1,15 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getRunProgress } from "../utils/runs.server";
+
+// Polled by the Discount Generator page while a run is queued or running
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const progress = await getRunProgress(session.shop, params.runId!);
+  if (!progress) {
+    return json({ error: "Run not found" }, { status: 404 });
+  }
+
+  return json({ progress });
+};
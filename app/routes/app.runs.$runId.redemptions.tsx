@@ -0,0 +1,227 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigate, useNavigation, useSubmit } from "@remix-run/react";
+import { useState } from "react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Card,
+  DataTable,
+  InlineGrid,
+  InlineStack,
+  Layout,
+  Page,
+  Pagination,
+  ProgressBar,
+  Text,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { refreshRunUsageSoon } from "../utils/jobs.server";
+import { getRunRedemptions } from "../utils/redemptions.server";
+
+const ROWS_PER_PAGE = 50;
+const LATEST_ORDERS_LIMIT = 20;
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const redemptions = await getRunRedemptions(session.shop, params.runId!);
+  if (!redemptions) {
+    throw new Response("Run not found", { status: 404 });
+  }
+
+  return json(redemptions);
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  if (formData.get("intent") !== "refresh-usage") {
+    return json({ error: "Invalid intent" }, { status: 400 });
+  }
+
+  try {
+    await refreshRunUsageSoon(session.shop, params.runId!);
+    return json({ queued: true });
+  } catch (error: any) {
+    return json({ error: error.message }, { status: 400 });
+  }
+};
+
+export default function RunRedemptions() {
+  const { run, summary, redemptions, unredeemed } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [page, setPage] = useState(1);
+
+  const isRefreshing = navigation.formData?.get("intent") === "refresh-usage";
+
+  const pageCount = Math.max(1, Math.ceil(unredeemed.length / ROWS_PER_PAGE));
+  const currentPage = Math.min(page, pageCount);
+  const pageBackers = unredeemed.slice(
+    (currentPage - 1) * ROWS_PER_PAGE,
+    currentPage * ROWS_PER_PAGE
+  );
+
+  return (
+    <Page
+      title="Redemptions"
+      subtitle={`${run.fileName ?? "Untitled upload"}, run started ${new Date(run.createdAt).toLocaleString()}`}
+      backAction={{ content: "Run", onAction: () => navigate(`/app/runs/${run.id}`) }}
+      primaryAction={{
+        content: "Check usage now",
+        loading: isRefreshing,
+        onAction: () => submit({ intent: "refresh-usage" }, { method: "post" }),
+      }}
+    >
+      <Layout>
+        {actionData && "error" in actionData && (
+          <Layout.Section>
+            <Banner tone="critical">{actionData.error}</Banner>
+          </Layout.Section>
+        )}
+        {actionData && "queued" in actionData && (
+          <Layout.Section>
+            <Banner tone="info">
+              Usage will be checked as soon as the background worker is free.
+              Reload this page in a minute to see the new counts.
+            </Banner>
+          </Layout.Section>
+        )}
+        {run.usageError && (
+          <Layout.Section>
+            <Banner tone="warning" title="The last usage check failed">
+              {run.usageError}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">
+                Summary
+              </Text>
+              <InlineGrid columns={4} gap="400">
+                <Metric label="Codes" value={summary.codes} />
+                <Metric label="Redeemed" value={summary.redeemed} />
+                <Metric label="Outstanding" value={summary.outstanding} />
+                <Metric
+                  label="Discounts on seen orders"
+                  value={
+                    summary.observedValue.length
+                      ? summary.observedValue
+                          .map(({ amount, currency }) => formatMoney(amount, currency))
+                          .join(", ")
+                      : "-"
+                  }
+                />
+              </InlineGrid>
+              {summary.codes > 0 && (
+                <ProgressBar progress={(summary.redeemed / summary.codes) * 100} size="small" />
+              )}
+              <Text as="p" tone="subdued">
+                {run.usageCheckedAt
+                  ? `Usage last checked ${new Date(run.usageCheckedAt).toLocaleString()}. `
+                  : "Usage hasn't been checked yet. "}
+                Redeemed counts codes Shopify reports as used as well as codes
+                seen on orders. Discounts on seen orders only adds up the{" "}
+                {summary.orders} orders received since order tracking began,
+                per currency.
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">
+                Unredeemed Backers
+              </Text>
+              <DataTable
+                columnContentTypes={["numeric", "text", "text", "text", "numeric", "text"]}
+                headings={["Row", "Customer", "Email", "Discount Code", "Amount", "Discount Status"]}
+                rows={pageBackers.map((backer) => [
+                  backer.row,
+                  backer.customer,
+                  backer.email ?? "-",
+                  backer.discountCode,
+                  backer.amount ?? "-",
+                  backer.discountStatus ? (
+                    <Badge key="status" tone={backer.discountStatus === "ACTIVE" ? "success" : undefined}>
+                      {backer.discountStatus}
+                    </Badge>
+                  ) : (
+                    "-"
+                  ),
+                ])}
+                footerContent={
+                  unredeemed.length
+                    ? `${unredeemed.length} backers haven't used their code`
+                    : "Every backer has used their code"
+                }
+              />
+              {pageCount > 1 && (
+                <InlineStack align="center">
+                  <Pagination
+                    hasPrevious={currentPage > 1}
+                    onPrevious={() => setPage(currentPage - 1)}
+                    hasNext={currentPage < pageCount}
+                    onNext={() => setPage(currentPage + 1)}
+                    label={`Page ${currentPage} of ${pageCount}`}
+                  />
+                </InlineStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {redemptions.length > 0 && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="400">
+                <Text as="h2" variant="headingMd">
+                  Latest Orders
+                </Text>
+                <DataTable
+                  columnContentTypes={["text", "text", "numeric", "numeric", "text"]}
+                  headings={["Order", "Discount Code", "Row", "Discount", "Date"]}
+                  rows={redemptions.slice(0, LATEST_ORDERS_LIMIT).map((redemption) => [
+                    redemption.orderName,
+                    redemption.code,
+                    redemption.row,
+                    formatMoney(redemption.amount, redemption.currency),
+                    new Date(redemption.redeemedAt).toLocaleString(),
+                  ])}
+                />
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
+
+function Metric({ label, value }: { label: string; value: string | number }) {
+  return (
+    <BlockStack gap="100">
+      <Text as="p" tone="subdued">
+        {label}
+      </Text>
+      <Text as="p" variant="headingLg">
+        {value}
+      </Text>
+    </BlockStack>
+  );
+}
+
+function formatMoney(amount: number, currency: string | null) {
+  return currency
+    ? new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount)
+    : amount.toFixed(2);
+}
@@ -0,0 +1,26 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { validateCustomerSync } from "../utils/customer-sync.server";
+import { syncRunCustomers } from "../utils/jobs.server";
+
+// Queues a finished run to write its codes to the matching Shopify customers
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  const options = {
+    campaignName: String(formData.get("campaignName") ?? ""),
+    tag: String(formData.get("tag") ?? ""),
+  };
+  const validationError = validateCustomerSync(options);
+  if (validationError) {
+    return json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    const queued = await syncRunCustomers(session.shop, params.runId!, options);
+    return json({ queued });
+  } catch (error: any) {
+    return json({ error: error.message }, { status: 400 });
+  }
+};
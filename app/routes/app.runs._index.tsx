@@ -0,0 +1,189 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useNavigate, useNavigation, useSearchParams } from "@remix-run/react";
+import { useCallback, useState } from "react";
+import {
+  Badge,
+  BlockStack,
+  Button,
+  Card,
+  IndexTable,
+  InlineStack,
+  Layout,
+  Page,
+  Pagination,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { listGenerationRuns, type RunStatus } from "../utils/runs.server";
+import {
+  RUN_STATUS_OPTIONS,
+  runStatusLabel,
+  runStatusTone,
+} from "../utils/run-status";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const params = new URL(request.url).searchParams;
+  const status = RUN_STATUS_OPTIONS.some((option) => option.value === params.get("status"))
+    ? (params.get("status") as RunStatus)
+    : null;
+  const search = params.get("q") ?? "";
+  const page = Math.max(1, Number(params.get("page")) || 1);
+
+  const history = await listGenerationRuns(session.shop, { status, search, page });
+
+  return json({ ...history, status, search });
+};
+
+export default function RunHistory() {
+  const { runs, page, hasNextPage, status, search } = useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+  const [query, setQuery] = useState(search);
+
+  const isLoading = navigation.state === "loading";
+
+  const showRuns = useCallback(
+    (filters: { status?: string | null; search?: string; page?: number }) => {
+      const params = new URLSearchParams();
+      const nextStatus = filters.status !== undefined ? filters.status : status;
+      const nextSearch = (filters.search ?? search).trim();
+
+      if (nextStatus) params.set("status", nextStatus);
+      if (nextSearch) params.set("q", nextSearch);
+      if (filters.page && filters.page > 1) params.set("page", String(filters.page));
+
+      setSearchParams(params);
+    },
+    [setSearchParams, status, search]
+  );
+
+  const openRun = useCallback(
+    (runId: string) => {
+      // Carry the search over so the run opens on the matching backers
+      navigate(`/app/runs/${runId}${search ? `?q=${encodeURIComponent(search)}` : ""}`);
+    },
+    [navigate, search]
+  );
+
+  return (
+    <Page title="Run History" subtitle="Past discount generation runs for this shop">
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack gap="300" blockAlign="end" wrap={false}>
+                <div style={{ flexGrow: 1 }}>
+                  <form
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      showRuns({ search: query, page: 1 });
+                    }}
+                  >
+                    <TextField
+                      label="Search"
+                      value={query}
+                      onChange={setQuery}
+                      placeholder="Backer name or discount code"
+                      autoComplete="off"
+                      clearButton
+                      onClearButtonClick={() => {
+                        setQuery("");
+                        showRuns({ search: "", page: 1 });
+                      }}
+                      connectedRight={<Button submit>Search</Button>}
+                    />
+                  </form>
+                </div>
+                <Select
+                  label="Status"
+                  options={[{ label: "All statuses", value: "" }, ...RUN_STATUS_OPTIONS]}
+                  value={status ?? ""}
+                  onChange={(value) => showRuns({ status: value || null, page: 1 })}
+                />
+              </InlineStack>
+
+              <IndexTable
+                resourceName={{ singular: "run", plural: "runs" }}
+                itemCount={runs.length}
+                selectable={false}
+                loading={isLoading}
+                headings={[
+                  { title: "Date" },
+                  { title: "File" },
+                  { title: "Status" },
+                  { title: "Backers", alignment: "end" },
+                  { title: "Successful", alignment: "end" },
+                  { title: "Errors", alignment: "end" },
+                ]}
+                emptyState={
+                  <div style={{ padding: "20px", textAlign: "center" }}>
+                    <Text as="p" tone="subdued">
+                      {search || status
+                        ? "No runs match these filters."
+                        : "No runs yet. Runs appear here once discount codes are generated."}
+                    </Text>
+                  </div>
+                }
+              >
+                {runs.map((run, index) => (
+                  <IndexTable.Row
+                    id={run.id}
+                    key={run.id}
+                    position={index}
+                    onClick={() => openRun(run.id)}
+                  >
+                    <IndexTable.Cell>{new Date(run.createdAt).toLocaleString()}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" fontWeight="semibold">
+                        {run.fileName ?? "Untitled upload"}
+                      </Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <InlineStack gap="100">
+                        <Badge tone={runStatusTone(run.status, run.errors)}>
+                          {runStatusLabel(run.status)}
+                        </Badge>
+                        {run.dryRun && <Badge>Dry run</Badge>}
+                      </InlineStack>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric>
+                        {run.total}
+                      </Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric>
+                        {run.successful}
+                      </Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric>
+                        {run.errors}
+                      </Text>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+
+              {(page > 1 || hasNextPage) && (
+                <InlineStack align="center">
+                  <Pagination
+                    hasPrevious={page > 1}
+                    onPrevious={() => showRuns({ page: page - 1 })}
+                    hasNext={hasNextPage}
+                    onNext={() => showRuns({ page: page + 1 })}
+                  />
+                </InlineStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
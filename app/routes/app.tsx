@@ -24,7 +24,8 @@ export default function App() {
         <Link to="/app" rel="home">
           Home
         </Link>
-        {/* <Link to="/app/discount-generator" rel="gen">Gen</Link> */}
+        <Link to="/app/discount-generator">Discount Generator</Link>
+        <Link to="/app/runs">Run History</Link>
       </NavMenu>
       <Outlet />
     </AppProvider>
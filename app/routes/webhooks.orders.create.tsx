@@ -0,0 +1,19 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import {
+  recordOrderRedemptions,
+  type OrderPayload,
+} from "../utils/redemptions.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const recorded = await recordOrderRedemptions(shop, payload as OrderPayload);
+  if (recorded > 0) {
+    console.log(`Recorded ${recorded} code redemptions for ${shop}`);
+  }
+
+  return new Response();
+};
@@ -0,0 +1,260 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAdminClient,
+  type GraphqlFunction,
+  type GraphqlResponse,
+} from "./admin-client.server";
+
+const QUERY = "query { shop { name } }";
+
+// A clock that only moves when the client sleeps, so waits can be asserted
+// exactly
+function fakeClock() {
+  let time = 0;
+  const sleeps: number[] = [];
+
+  return {
+    sleeps,
+    now: () => time,
+    sleep: async (ms: number) => {
+      sleeps.push(ms);
+      time += ms;
+    },
+  };
+}
+
+// Replays the given responses in order; a function throws instead of
+// returning
+function fakeGraphql(responses: (GraphqlResponse | (() => never))[]) {
+  const calls: { query: string; variables?: Record<string, unknown> }[] = [];
+
+  const graphql: GraphqlFunction = async (query, options) => {
+    calls.push({ query, variables: options?.variables });
+
+    const response = responses.shift();
+    if (!response) throw new Error("Unexpected request");
+    if (typeof response === "function") return response();
+    return { json: async () => response };
+  };
+
+  return { graphql, calls };
+}
+
+function withCost(
+  data: any,
+  cost: { requested: number; available: number; restoreRate?: number },
+): GraphqlResponse {
+  return {
+    data,
+    extensions: {
+      cost: {
+        requestedQueryCost: cost.requested,
+        actualQueryCost: cost.requested,
+        throttleStatus: {
+          maximumAvailable: 1000,
+          currentlyAvailable: cost.available,
+          restoreRate: cost.restoreRate ?? 50,
+        },
+      },
+    },
+  };
+}
+
+const throttledBody: GraphqlResponse = {
+  errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }],
+};
+
+function httpThrottle(retryAfter?: number) {
+  return () => {
+    throw Object.assign(new Error("Too many requests"), {
+      response: { code: 429, retryAfter },
+    });
+  };
+}
+
+describe("createAdminClient", () => {
+  it("returns the parsed body and passes variables through", async () => {
+    const clock = fakeClock();
+    const { graphql, calls } = fakeGraphql([{ data: { shop: { name: "A" } } }]);
+    const client = createAdminClient(graphql, clock);
+
+    const body = await client.request(QUERY, { first: 1 });
+
+    expect(body.data).toEqual({ shop: { name: "A" } });
+    expect(calls).toEqual([{ query: QUERY, variables: { first: 1 } }]);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it("doesn't wait while the bucket has room for the query", async () => {
+    const clock = fakeClock();
+    const { graphql } = fakeGraphql([
+      withCost({}, { requested: 10, available: 500 }),
+      withCost({}, { requested: 10, available: 490 }),
+    ]);
+    const client = createAdminClient(graphql, clock);
+
+    await client.request(QUERY);
+    await client.request(QUERY);
+
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it("waits for the bucket to refill before a query it can't afford", async () => {
+    const clock = fakeClock();
+    const { graphql } = fakeGraphql([
+      withCost({}, { requested: 100, available: 40, restoreRate: 50 }),
+      withCost({}, { requested: 100, available: 0 }),
+    ]);
+    const client = createAdminClient(graphql, clock);
+
+    await client.request(QUERY);
+    await client.request(QUERY);
+
+    // 60 points short at 50 points a second
+    expect(clock.sleeps).toEqual([1200]);
+  });
+
+  it("counts points restored since the last response", async () => {
+    let time = 0;
+    const sleeps: number[] = [];
+    const { graphql } = fakeGraphql([
+      withCost({}, { requested: 100, available: 40, restoreRate: 50 }),
+      withCost({}, { requested: 100, available: 0 }),
+    ]);
+    const client = createAdminClient(graphql, {
+      now: () => time,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+
+    await client.request(QUERY);
+    time += 1000;
+    await client.request(QUERY);
+
+    // 50 of the 60 missing points came back during the second
+    expect(sleeps).toEqual([200]);
+  });
+
+  it("retries a THROTTLED response with exponential backoff", async () => {
+    const clock = fakeClock();
+    const { graphql, calls } = fakeGraphql([
+      throttledBody,
+      throttledBody,
+      { data: { ok: true } },
+    ]);
+    const client = createAdminClient(graphql, clock);
+
+    const body = await client.request(QUERY);
+
+    expect(body.data).toEqual({ ok: true });
+    expect(calls).toHaveLength(3);
+    expect(clock.sleeps).toEqual([1000, 2000]);
+  });
+
+  it("retries a thrown THROTTLED error", async () => {
+    const clock = fakeClock();
+    const { graphql, calls } = fakeGraphql([
+      () => {
+        throw Object.assign(new Error("Throttled"), {
+          body: { errors: { graphQLErrors: throttledBody.errors } },
+        });
+      },
+      { data: { ok: true } },
+    ]);
+    const client = createAdminClient(graphql, clock);
+
+    const body = await client.request(QUERY);
+
+    expect(body.data).toEqual({ ok: true });
+    expect(calls).toHaveLength(2);
+    expect(clock.sleeps).toEqual([1000]);
+  });
+
+  it("waits as long as a 429's Retry-After asks", async () => {
+    const clock = fakeClock();
+    const { graphql, calls } = fakeGraphql([
+      httpThrottle(3),
+      { data: { ok: true } },
+    ]);
+    const client = createAdminClient(graphql, clock);
+
+    await client.request(QUERY);
+
+    expect(calls).toHaveLength(2);
+    expect(clock.sleeps).toEqual([3000]);
+  });
+
+  it("backs off when a 429 has no Retry-After", async () => {
+    const clock = fakeClock();
+    const { graphql } = fakeGraphql([
+      httpThrottle(),
+      httpThrottle(),
+      { data: { ok: true } },
+    ]);
+    const client = createAdminClient(graphql, clock);
+
+    await client.request(QUERY);
+
+    expect(clock.sleeps).toEqual([1000, 2000]);
+  });
+
+  it("caps the backoff", async () => {
+    const clock = fakeClock();
+    const { graphql } = fakeGraphql([
+      ...Array(7).fill(throttledBody),
+      { data: { ok: true } },
+    ]);
+    const client = createAdminClient(graphql, { ...clock, maxRetries: 7 });
+
+    await client.request(QUERY);
+
+    expect(clock.sleeps).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000]);
+  });
+
+  it("gives up once the retries run out", async () => {
+    const clock = fakeClock();
+    const { graphql, calls } = fakeGraphql(Array(3).fill(throttledBody));
+    const client = createAdminClient(graphql, { ...clock, maxRetries: 2 });
+
+    await expect(client.request(QUERY)).rejects.toThrow(
+      "Shopify kept throttling the request after 3 attempts",
+    );
+    expect(calls).toHaveLength(3);
+  });
+
+  it("gives up on repeated 429s", async () => {
+    const clock = fakeClock();
+    const { graphql, calls } = fakeGraphql([httpThrottle(1), httpThrottle(1)]);
+    const client = createAdminClient(graphql, { ...clock, maxRetries: 1 });
+
+    await expect(client.request(QUERY)).rejects.toThrow("after 2 attempts");
+    expect(calls).toHaveLength(2);
+  });
+
+  it("rethrows errors that aren't throttling", async () => {
+    const clock = fakeClock();
+    const { graphql, calls } = fakeGraphql([
+      () => {
+        throw new Error("Network down");
+      },
+    ]);
+    const client = createAdminClient(graphql, clock);
+
+    await expect(client.request(QUERY)).rejects.toThrow("Network down");
+    expect(calls).toHaveLength(1);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it("returns GraphQL errors that aren't throttling", async () => {
+    const clock = fakeClock();
+    const errors = [{ message: "Field 'nope' doesn't exist" }];
+    const { graphql, calls } = fakeGraphql([{ errors }]);
+    const client = createAdminClient(graphql, clock);
+
+    const body = await client.request(QUERY);
+
+    expect(body.errors).toEqual(errors);
+    expect(calls).toHaveLength(1);
+  });
+});
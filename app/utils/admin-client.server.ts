@@ -0,0 +1,181 @@
+// The `admin.graphql` function handed out by `authenticate.admin` and
+// `unauthenticated.admin`. Tests can pass any function with the same shape.
+export type GraphqlFunction = (
+  query: string,
+  options?: { variables?: Record<string, unknown> },
+) => Promise<any>;
+
+export interface GraphqlResponse {
+  data?: any;
+  errors?: any[];
+  extensions?: {
+    cost?: QueryCost;
+  };
+}
+
+interface QueryCost {
+  requestedQueryCost: number;
+  actualQueryCost: number | null;
+  throttleStatus: {
+    maximumAvailable: number;
+    currentlyAvailable: number;
+    restoreRate: number;
+  };
+}
+
+export interface AdminClientOptions {
+  maxRetries?: number;
+  // Cost assumed for a query before Shopify has reported its real cost
+  defaultQueryCost?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export interface AdminClient {
+  request(
+    query: string,
+    variables?: Record<string, unknown>,
+  ): Promise<GraphqlResponse>;
+}
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+// Wraps `admin.graphql` with Shopify's leaky-bucket rate limit in mind. Each
+// response reports the query cost and how many points are left; the client
+// waits just long enough for the bucket to refill before the next request,
+// and backs off and retries when Shopify throttles anyway.
+export function createAdminClient(
+  graphql: GraphqlFunction,
+  options: AdminClientOptions = {},
+): AdminClient {
+  const {
+    maxRetries = 5,
+    defaultQueryCost = 10,
+    sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms)),
+    now = Date.now,
+  } = options;
+
+  const queryCosts = new Map<string, number>();
+  let bucket: {
+    available: number;
+    maximum: number;
+    restoreRate: number;
+    observedAt: number;
+  } | null = null;
+
+  const availableNow = () => {
+    if (!bucket) return Infinity;
+
+    const restored = ((now() - bucket.observedAt) / 1000) * bucket.restoreRate;
+    return Math.min(bucket.maximum, bucket.available + restored);
+  };
+
+  const waitForCapacity = async (cost: number) => {
+    const available = availableNow();
+    if (!bucket || available >= cost) return;
+
+    await sleep(Math.ceil(((cost - available) / bucket.restoreRate) * 1000));
+  };
+
+  const recordCost = (query: string, cost?: QueryCost) => {
+    if (!cost?.throttleStatus) return;
+
+    queryCosts.set(query, cost.requestedQueryCost);
+    bucket = {
+      available: cost.throttleStatus.currentlyAvailable,
+      maximum: cost.throttleStatus.maximumAvailable,
+      restoreRate: cost.throttleStatus.restoreRate,
+      observedAt: now(),
+    };
+  };
+
+  const backoffDelay = (attempt: number, retryAfterSeconds?: number) => {
+    if (retryAfterSeconds) {
+      return retryAfterSeconds * 1000;
+    }
+    return Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  };
+
+  return {
+    async request(query, variables) {
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        await waitForCapacity(queryCosts.get(query) ?? defaultQueryCost);
+
+        let body: GraphqlResponse;
+        try {
+          body = await parseResponse(await graphql(query, { variables }));
+        } catch (error: any) {
+          const throttle = getThrottle(error);
+          if (!throttle) {
+            throw error;
+          }
+
+          recordCost(query, throttle.cost);
+          await sleep(backoffDelay(attempt, throttle.retryAfter));
+          continue;
+        }
+
+        recordCost(query, body.extensions?.cost);
+
+        if (isThrottled(body.errors)) {
+          await sleep(backoffDelay(attempt));
+          continue;
+        }
+
+        return body;
+      }
+
+      throw new Error(
+        `Shopify kept throttling the request after ${maxRetries + 1} attempts`,
+      );
+    },
+  };
+}
+
+// Depending on the client, a response is a fetch Response, an already parsed
+// body or something that can only be read as text
+async function parseResponse(response: any): Promise<GraphqlResponse> {
+  if (response && typeof response.json === "function") {
+    return response.json();
+  }
+  if (response && (response.data || response.errors)) {
+    return response;
+  }
+
+  const responseText = await response.text();
+  try {
+    return JSON.parse(responseText);
+  } catch {
+    throw new Error(
+      `Invalid response format: ${responseText.substring(0, 100)}`,
+    );
+  }
+}
+
+function isThrottled(errors: any) {
+  return (
+    Array.isArray(errors) &&
+    errors.some((error) => error?.extensions?.code === "THROTTLED")
+  );
+}
+
+// Recognises the errors the Shopify API library throws when a request was
+// rate limited: an HTTP 429, or a GraphQL THROTTLED error
+function getThrottle(
+  error: any,
+): { retryAfter?: number; cost?: QueryCost } | null {
+  const status = error?.response?.code ?? error?.response?.status;
+  if (status === 429) {
+    // HttpThrottlingError keeps the Retry-After header, in seconds, on its
+    // response
+    return { retryAfter: error.response?.retryAfter };
+  }
+
+  const body = error?.body;
+  if (isThrottled(body?.errors?.graphQLErrors ?? body?.errors)) {
+    return { cost: body.extensions?.cost };
+  }
+
+  return null;
+}
@@ -0,0 +1,94 @@
+// Rules that turn a backer's pledge into their discount value. Shared by the
+// mapping step (per-row preview) and the job worker.
+
+export type AmountFormula = "pledge" | "percent" | "tiers";
+
+export interface AmountTier {
+  // Smallest pledge that gets this tier's amount
+  minPledge: number;
+  amount: number;
+}
+
+export interface AmountRules {
+  formula: AmountFormula;
+  // "percent": the discount is this percentage of the pledge
+  percent?: number;
+  // "tiers": the discount is the amount of the highest tier the pledge reaches
+  tiers?: AmountTier[];
+  // Largest discount any backer gets
+  cap?: number;
+  // Pledges below this get no code
+  minimumPledge?: number;
+}
+
+export const DEFAULT_AMOUNT_RULES: AmountRules = { formula: "pledge" };
+
+// Returns an error message, or null when the rules are usable
+export function validateAmountRules(rules: AmountRules) {
+  if (!["pledge", "percent", "tiers"].includes(rules?.formula)) {
+    return "Unknown amount formula";
+  }
+
+  if (rules.formula === "percent") {
+    const { percent } = rules;
+    if (percent === undefined || !(percent > 0) || percent > 100) {
+      return "Enter a percentage of the pledge between 0 and 100";
+    }
+  }
+
+  if (rules.formula === "tiers") {
+    const tiers = rules.tiers ?? [];
+    if (!tiers.length) {
+      return "Add at least one amount tier";
+    }
+    for (const tier of tiers) {
+      if (!(tier.minPledge >= 0) || !(tier.amount > 0)) {
+        return "Each tier needs a minimum pledge of 0 or more and an amount above 0";
+      }
+    }
+    const minimums = tiers.map((tier) => tier.minPledge);
+    if (new Set(minimums).size !== minimums.length) {
+      return "Two tiers have the same minimum pledge";
+    }
+  }
+
+  if (rules.cap !== undefined && !(rules.cap > 0)) {
+    return "The cap must be greater than 0";
+  }
+  if (rules.minimumPledge !== undefined && !(rules.minimumPledge >= 0)) {
+    return "The minimum pledge can't be negative";
+  }
+
+  return null;
+}
+
+// Works out the discount value for a pledge
+export function applyAmountRules(
+  rules: AmountRules,
+  pledge: number,
+): { value: number } | { error: string } {
+  if (rules.minimumPledge !== undefined && pledge < rules.minimumPledge) {
+    return {
+      error: `Pledge of ${pledge} is below the minimum of ${rules.minimumPledge}`,
+    };
+  }
+
+  let value = pledge;
+  if (rules.formula === "percent") {
+    value = (pledge * (rules.percent ?? 0)) / 100;
+  } else if (rules.formula === "tiers") {
+    const tier = [...(rules.tiers ?? [])]
+      .sort((a, b) => b.minPledge - a.minPledge)
+      .find((candidate) => pledge >= candidate.minPledge);
+    if (!tier) {
+      return { error: `No amount tier covers a pledge of ${pledge}` };
+    }
+    value = tier.amount;
+  }
+
+  if (rules.cap !== undefined) {
+    value = Math.min(value, rules.cap);
+  }
+
+  return { value: Math.round(value * 100) / 100 };
+}
@@ -0,0 +1,464 @@
+import db from "../db.server";
+import type { AdminClient } from "./admin-client.server";
+import {
+  createDiscount,
+  findCodeDiscount,
+  isCodeTakenError,
+  prepareDiscountRow,
+  retryTakenCode,
+  type DiscountResult,
+  type GenerationConfig,
+  type PreparedRow,
+  type RowLookups,
+  withWarning,
+} from "./discount.server";
+import { getDiscountType } from "./discount-types.server";
+import { claimBacker, getBackerKey, settleBacker } from "./idempotency.server";
+
+const REDEEM_CODE_BULK_ADD = `
+  mutation discountRedeemCodeBulkAdd($discountId: ID!, $codes: [DiscountRedeemCodeInput!]!) {
+    discountRedeemCodeBulkAdd(discountId: $discountId, codes: $codes) {
+      bulkCreation {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const REDEEM_CODE_BULK_CREATION = `
+  query discountRedeemCodeBulkCreation($id: ID!, $after: String) {
+    discountRedeemCodeBulkCreation(id: $id) {
+      done
+      codes(first: 250, after: $after) {
+        nodes {
+          code
+          errors {
+            field
+            message
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+// Shopify accepts at most 250 codes per discountRedeemCodeBulkAdd call
+const MAX_CODES_PER_BULK_ADD = 250;
+const BULK_POLL_INTERVAL_MS = 1000;
+const BULK_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+// Rounds of fresh codes for codes Shopify refuses as taken
+const MAX_TAKEN_CODE_RETRIES = 3;
+
+interface GroupedRun {
+  id: string;
+  shop: string;
+  campaign: string;
+}
+
+interface PendingRow {
+  row: number;
+  customer: string;
+  rowData: any;
+  discountCode: string | null;
+}
+
+interface GroupCallbacks {
+  saveResult: (result: DiscountResult) => Promise<void>;
+  // Called while waiting on Shopify so the run's lock doesn't go stale
+  heartbeat: () => Promise<void>;
+}
+
+interface GroupedRow {
+  prepared: PreparedRow;
+  rowData: any;
+  backerKey: string | null;
+  // The code was picked by an earlier attempt and may already be on Shopify
+  resumed: boolean;
+}
+
+interface CodeError {
+  message: string;
+  // Whether a discount already uses the code
+  codeTaken?: boolean;
+}
+
+// "Grouped" mode: rather than one discount per backer, create one discount
+// per amount (split further by reward tier when a tier column is mapped) and
+// attach every backer's code to it with discountRedeemCodeBulkAdd
+export async function generateGroupedDiscounts(
+  client: AdminClient,
+  lookups: RowLookups,
+  run: GroupedRun,
+  config: GenerationConfig,
+  rows: PendingRow[],
+  { saveResult, heartbeat }: GroupCallbacks,
+) {
+  const groups = new Map<string, { tier: string; rows: GroupedRow[] }>();
+  const discountType = getDiscountType(config.settings.type);
+
+  const settle = async (entry: GroupedRow, result: DiscountResult) => {
+    if (entry.backerKey) {
+      await settleBacker(entry.backerKey, contextFor(run, entry), result);
+    }
+    await saveResult(result);
+  };
+
+  // Stores the fresh code of a row whose code Shopify refused as taken, so a
+  // resumed run uses the new code
+  const saveNewCode = (entry: GroupedRow) => async (discountCode: string) => {
+    entry.resumed = false;
+    await db.generatedCode.update({
+      where: { runId_row: { runId: run.id, row: entry.prepared.row } },
+      data: { discountCode },
+    });
+  };
+
+  for (const pending of rows) {
+    // Preparing thousands of rows takes longer than the lock timeout
+    await heartbeat();
+
+    const prepared = await prepareDiscountRow(
+      lookups,
+      pending.rowData,
+      pending.row,
+      config,
+      pending.discountCode ?? undefined,
+    );
+    if (!prepared.ok) {
+      await saveResult(prepared.result);
+      continue;
+    }
+
+    // Remember the code so a resumed run reuses it (see above) rather than
+    // giving the backer a second one
+    if (!pending.discountCode) {
+      await db.generatedCode.update({
+        where: { runId_row: { runId: run.id, row: pending.row } },
+        data: { discountCode: prepared.row.discountCode },
+      });
+    }
+
+    const entry = {
+      prepared: prepared.row,
+      rowData: pending.rowData,
+      backerKey: getBackerKey(pending.rowData, config.mapping),
+      resumed: Boolean(pending.discountCode),
+    };
+
+    if (entry.backerKey) {
+      const claimed = await claimBacker(
+        entry.backerKey,
+        contextFor(run, entry),
+      );
+      if (claimed) {
+        await saveResult(claimed);
+        continue;
+      }
+    }
+
+    const { tierColumn } = config.mapping;
+    const tier = tierColumn
+      ? String(pending.rowData[tierColumn] ?? "").trim()
+      : "";
+    // Backers only share a discount when it applies to the same items
+    const groupKey = JSON.stringify(
+      config.settings.itemsColumn
+        ? [tier, prepared.row.amount, prepared.row.items]
+        : [tier, prepared.row.amount],
+    );
+
+    if (!groups.has(groupKey)) {
+      groups.set(groupKey, { tier, rows: [] });
+    }
+    groups.get(groupKey)!.rows.push(entry);
+  }
+
+  // Gives a row whose code Shopify refused as taken a fresh one. Returns
+  // false when no unused code could be found.
+  const renewCode = async (entry: GroupedRow) => {
+    try {
+      entry.prepared.discountCode = await lookups.codes.next(
+        entry.rowData,
+        entry.prepared.customer,
+      );
+    } catch {
+      return false;
+    }
+
+    await saveNewCode(entry)(entry.prepared.discountCode);
+    return true;
+  };
+
+  for (const [groupKey, group] of groups) {
+    const amount = group.rows[0].prepared.amount;
+    const valueLabel = discountType.needsValue
+      ? String(amount)
+      : "Free shipping";
+    const title = group.tier
+      ? `Kickstarter Backers - ${group.tier} (${valueLabel})`
+      : `Kickstarter Backers - ${valueLabel}`;
+
+    let discountGroup = await db.discountGroup.upsert({
+      where: { runId_groupKey: { runId: run.id, groupKey } },
+      update: {},
+      create: { runId: run.id, groupKey, title, amount },
+    });
+
+    let remaining = group.rows;
+
+    if (!discountGroup.discountId) {
+      // The group's discount is created with its first backer's code
+      const [first, ...rest] = group.rows;
+      const result = await retryTakenCode(
+        lookups,
+        first.rowData,
+        first.prepared,
+        () => createGroupDiscount(client, first, title, config),
+        saveNewCode(first),
+      );
+      await settle(first, result);
+
+      if (result.status !== "success") {
+        for (const entry of rest) {
+          await settle(
+            entry,
+            errorFor(
+              entry.prepared,
+              `Could not create the group discount: ${result.message}`,
+            ),
+          );
+        }
+        continue;
+      }
+
+      discountGroup = await db.discountGroup.update({
+        where: { id: discountGroup.id },
+        data: { discountId: result.discountId },
+      });
+      remaining = rest;
+    }
+
+    // Codes Shopify refuses as taken are added again with fresh ones
+    for (let retry = 0; remaining.length; retry++) {
+      const renamed: GroupedRow[] = [];
+
+      for (let i = 0; i < remaining.length; i += MAX_CODES_PER_BULK_ADD) {
+        const chunk = remaining.slice(i, i + MAX_CODES_PER_BULK_ADD);
+
+        let outcomes: Map<string, CodeError | null>;
+        try {
+          outcomes = await addRedeemCodes(
+            client,
+            discountGroup.discountId,
+            chunk.map((entry) => entry.prepared.discountCode),
+            heartbeat,
+          );
+        } catch (error: any) {
+          for (const entry of chunk) {
+            await settle(
+              entry,
+              errorFor(entry.prepared, `API Error: ${error.message}`),
+            );
+          }
+          continue;
+        }
+
+        for (const entry of chunk) {
+          const { discountCode } = entry.prepared;
+          let codeError = outcomes.has(discountCode)
+            ? outcomes.get(discountCode)
+            : { message: "Code missing from the bulk creation results" };
+
+          if (codeError?.codeTaken) {
+            // An interrupted attempt may already have added this exact code
+            if (entry.resumed) {
+              codeError = null;
+            } else if (
+              retry < MAX_TAKEN_CODE_RETRIES &&
+              (await renewCode(entry))
+            ) {
+              renamed.push(entry);
+              continue;
+            }
+          }
+
+          await settle(
+            entry,
+            codeError
+              ? errorFor(entry.prepared, codeError.message)
+              : {
+                  row: entry.prepared.row,
+                  customer: entry.prepared.customer,
+                  status: "success",
+                  discountCode,
+                  discountId: discountGroup.discountId,
+                  pledge: entry.prepared.pledge,
+                  amount: discountType.needsValue
+                    ? entry.prepared.amount
+                    : undefined,
+                  message: withWarning(
+                    "Discount code added to group discount",
+                    entry.prepared,
+                  ),
+                },
+          );
+        }
+      }
+
+      remaining = renamed;
+    }
+  }
+}
+
+// Adds codes to an existing discount and waits for Shopify's asynchronous
+// bulk creation to finish. Returns each code's error, or null when it was
+// created.
+async function addRedeemCodes(
+  client: AdminClient,
+  discountId: string,
+  codes: string[],
+  heartbeat: () => Promise<void>,
+) {
+  const response = await client.request(REDEEM_CODE_BULK_ADD, {
+    discountId,
+    codes: codes.map((code) => ({ code })),
+  });
+
+  const bulkAdd = response.data?.discountRedeemCodeBulkAdd;
+  if (bulkAdd?.userErrors?.length) {
+    throw new Error(
+      bulkAdd.userErrors
+        .map((e: any) => `${e.field || "unknown"}: ${e.message}`)
+        .join(", "),
+    );
+  }
+
+  const bulkCreationId = bulkAdd?.bulkCreation?.id;
+  if (!bulkCreationId) {
+    throw new Error(
+      "No bulk creation job in discountRedeemCodeBulkAdd response",
+    );
+  }
+
+  const startedAt = Date.now();
+  while (true) {
+    const status = await client.request(REDEEM_CODE_BULK_CREATION, {
+      id: bulkCreationId,
+    });
+
+    if (status.data?.discountRedeemCodeBulkCreation?.done) {
+      break;
+    }
+    if (Date.now() - startedAt > BULK_POLL_TIMEOUT_MS) {
+      throw new Error("Timed out waiting for Shopify to add the codes");
+    }
+
+    await heartbeat();
+    await new Promise((resolve) => setTimeout(resolve, BULK_POLL_INTERVAL_MS));
+  }
+
+  const outcomes = new Map<string, CodeError | null>();
+  let after: string | null = null;
+
+  do {
+    const page = await client.request(REDEEM_CODE_BULK_CREATION, {
+      id: bulkCreationId,
+      after,
+    });
+    const connection = page.data?.discountRedeemCodeBulkCreation?.codes;
+
+    for (const node of connection?.nodes ?? []) {
+      const errors = node.errors ?? [];
+      outcomes.set(
+        node.code,
+        errors.length
+          ? {
+              message: errors
+                .map((e: any) => `${e.field || "unknown"}: ${e.message}`)
+                .join(", "),
+              codeTaken: errors.some(isCodeTakenError),
+            }
+          : null,
+      );
+    }
+
+    after = connection?.pageInfo?.hasNextPage
+      ? connection.pageInfo.endCursor
+      : null;
+  } while (after);
+
+  return outcomes;
+}
+
+// Creates the discount a group's codes are added to. A worker that died after
+// creating it but before saving its ID left it on Shopify under the first
+// backer's code, so a resumed group picks that discount up instead.
+async function createGroupDiscount(
+  client: AdminClient,
+  first: GroupedRow,
+  title: string,
+  config: GenerationConfig,
+): Promise<DiscountResult> {
+  if (first.resumed) {
+    let existing;
+    try {
+      existing = await findCodeDiscount(client, first.prepared.discountCode);
+    } catch (error: any) {
+      return errorFor(first.prepared, `API Error: ${error.message}`);
+    }
+
+    if (existing?.title === title) {
+      const discountType = getDiscountType(config.settings.type);
+      return {
+        row: first.prepared.row,
+        customer: first.prepared.customer,
+        status: "success",
+        discountCode: first.prepared.discountCode,
+        discountId: existing.id,
+        pledge: first.prepared.pledge,
+        amount: discountType.needsValue ? first.prepared.amount : undefined,
+        message: withWarning(
+          "Group discount found from an interrupted attempt",
+          first.prepared,
+        ),
+      };
+    }
+  }
+
+  return createDiscount(
+    client,
+    first.prepared,
+    title,
+    config.settings,
+    // Shared by the whole group, so only limited when the merchant set a
+    // total limit
+    config.settings.constraints?.usageLimit ?? null,
+  );
+}
+
+function contextFor(run: GroupedRun, entry: GroupedRow) {
+  return {
+    shop: run.shop,
+    campaign: run.campaign,
+    runId: run.id,
+    row: entry.prepared.row,
+    customer: entry.prepared.customer,
+  };
+}
+
+function errorFor(prepared: PreparedRow, message: string): DiscountResult {
+  return {
+    row: prepared.row,
+    customer: prepared.customer,
+    status: "error",
+    message,
+  };
+}
@@ -0,0 +1,107 @@
+import db from "../db.server";
+import {
+  DEFAULT_CODE_FORMAT,
+  renderCode,
+  usesSequence,
+  type CodeFormat,
+} from "./code-template";
+
+// A random segment can repeat an existing code; give up after this many tries
+const MAX_CODE_ATTEMPTS = 5;
+
+export interface CodeGenerator {
+  next(row: Record<string, unknown>, name: string): Promise<string>;
+}
+
+// Renders codes in the shop's chosen format and reserves each one, so no two
+// backers of a shop are ever given the same code
+export function createCodeGenerator(
+  shop: string,
+  format: CodeFormat = DEFAULT_CODE_FORMAT,
+): CodeGenerator {
+  const sequenced = usesSequence(format);
+
+  return {
+    async next(row, name) {
+      for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+        const sequence = sequenced ? await nextSequence(shop) : undefined;
+        const code = renderCode(format, { row, name, sequence });
+
+        if (await reserveCode(shop, code)) {
+          return code;
+        }
+      }
+
+      throw new Error(
+        `Could not find an unused code after ${MAX_CODE_ATTEMPTS} attempts`,
+      );
+    },
+  };
+}
+
+// Renders codes the way createCodeGenerator would, for dry runs. Nothing is
+// reserved and the shop's counter doesn't move; codes only avoid each other
+// and the codes the shop has already reserved.
+export function createPreviewCodeGenerator(
+  shop: string,
+  format: CodeFormat = DEFAULT_CODE_FORMAT,
+): CodeGenerator {
+  const sequenced = usesSequence(format);
+  const previewed = new Set<string>();
+  let sequence: number | undefined;
+
+  return {
+    async next(row, name) {
+      for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+        if (sequenced) {
+          sequence = (sequence ?? (await currentSequence(shop))) + 1;
+        }
+        const code = renderCode(format, { row, name, sequence });
+
+        if (!previewed.has(code) && !(await isReserved(shop, code))) {
+          previewed.add(code);
+          return code;
+        }
+      }
+
+      throw new Error(
+        `Could not find an unused code after ${MAX_CODE_ATTEMPTS} attempts`,
+      );
+    },
+  };
+}
+
+async function currentSequence(shop: string) {
+  const counter = await db.codeSequence.findUnique({ where: { shop } });
+  return (counter?.value as number | undefined) ?? 0;
+}
+
+async function isReserved(shop: string, code: string) {
+  const reserved = await db.reservedCode.findUnique({
+    where: { shop_code: { shop, code } },
+  });
+  return Boolean(reserved);
+}
+
+async function nextSequence(shop: string) {
+  const counter = await db.codeSequence.upsert({
+    where: { shop },
+    create: { shop, value: 1 },
+    update: { value: { increment: 1 } },
+  });
+
+  return counter.value as number;
+}
+
+// Returns false when the shop already has the code
+async function reserveCode(shop: string, code: string) {
+  try {
+    await db.reservedCode.create({ data: { shop, code } });
+    return true;
+  } catch (error: any) {
+    if (error?.code !== "P2002") {
+      throw error;
+    }
+    return false;
+  }
+}
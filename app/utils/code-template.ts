@@ -0,0 +1,238 @@
+// Discount code formats. Shared by the mapping step (live preview) and the
+// job worker, so it must not import anything server-only.
+//
+// A template is literal text plus placeholders:
+//   {name}            the backer's name, after the name transform
+//   {column:Header}   the value of any CSV column
+//   {seq} {seq:6}     the shop's code counter, optionally zero padded
+//   {random:8}        random letters and digits of the given length
+//   {checksum}        one check character computed over the rest of the code
+// Codes are upper-cased and column values reduced to letters and digits.
+
+export interface CodeFormat {
+  prefix: string;
+  template: string;
+  suffix: string;
+}
+
+export const DEFAULT_CODE_FORMAT: CodeFormat = {
+  prefix: "KS-",
+  template: "{random:8}{checksum}",
+  suffix: "",
+};
+
+// Shopify rejects longer codes
+export const MAX_CODE_LENGTH = 255;
+
+// Random segments below this length collide too often to rely on retries
+const MIN_RANDOM_LENGTH = 4;
+const MAX_SEGMENT_LENGTH = 32;
+
+// No 0/O or 1/I, so codes can be read out and typed without mistakes
+const RANDOM_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CHECKSUM_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const LITERAL_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+export type CodeToken =
+  | { kind: "literal"; text: string }
+  | { kind: "name" }
+  | { kind: "column"; column: string }
+  | { kind: "seq"; width: number }
+  | { kind: "random"; length: number }
+  | { kind: "checksum" };
+
+export interface CodeValues {
+  row: Record<string, unknown>;
+  name: string;
+  // Only read when the template contains {seq}
+  sequence?: number;
+  random?: (length: number) => string;
+}
+
+// Splits a template into tokens. Throws with a readable message when the
+// template can't be used.
+export function parseCodeTemplate(template: string): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  const pattern = /\{([^{}]*)\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  const pushLiteral = (text: string) => {
+    if (!text) return;
+    if (!LITERAL_PATTERN.test(text)) {
+      throw new Error(
+        `"${text}" can only contain letters, digits, "-" and "_"`,
+      );
+    }
+    tokens.push({ kind: "literal", text });
+  };
+
+  while ((match = pattern.exec(template))) {
+    pushLiteral(template.slice(last, match.index));
+    tokens.push(parsePlaceholder(match[1].trim()));
+    last = pattern.lastIndex;
+  }
+  pushLiteral(template.slice(last));
+
+  if (tokens.filter((token) => token.kind === "checksum").length > 1) {
+    throw new Error("A code can only have one {checksum}");
+  }
+
+  return tokens;
+}
+
+// Checks a format before a run is queued. Returns an error message, or null
+// when the format is usable with the given CSV headers.
+export function validateCodeFormat(format: CodeFormat, headers?: string[]) {
+  let tokens: CodeToken[];
+  try {
+    tokens = parseCodeTemplate(formatToTemplate(format));
+  } catch (error: any) {
+    return error.message as string;
+  }
+
+  for (const token of tokens) {
+    if (token.kind === "column" && headers && !headers.includes(token.column)) {
+      return `The code format uses a column that isn't in the file: ${token.column}`;
+    }
+  }
+
+  // The counter never repeats within a shop and random segments are retried
+  // on collision, but a code built only from column values could repeat
+  if (
+    !tokens.some((token) => token.kind === "seq" || token.kind === "random")
+  ) {
+    return "The code format needs {seq} or {random:N} so every code is unique";
+  }
+
+  return null;
+}
+
+export function usesSequence(format: CodeFormat) {
+  return parseCodeTemplate(formatToTemplate(format)).some(
+    (token) => token.kind === "seq",
+  );
+}
+
+// Builds a code from a format. The result is upper-cased.
+export function renderCode(format: CodeFormat, values: CodeValues) {
+  const tokens = parseCodeTemplate(formatToTemplate(format));
+  const random = values.random ?? randomSegment;
+
+  const parts = tokens.map((token) => {
+    switch (token.kind) {
+      case "literal":
+        return token.text.toUpperCase();
+      case "name":
+        return cleanValue(values.name);
+      case "column":
+        return cleanValue(values.row[token.column]);
+      case "seq":
+        if (values.sequence === undefined) {
+          throw new Error("No sequence number for {seq}");
+        }
+        return String(values.sequence).padStart(token.width, "0");
+      case "random":
+        return random(token.length);
+      default:
+        // {checksum} is filled in once the rest of the code is known
+        return "";
+    }
+  });
+
+  const checksumIndex = tokens.findIndex((token) => token.kind === "checksum");
+  if (checksumIndex !== -1) {
+    parts[checksumIndex] = checksumCharacter(parts.join(""));
+  }
+
+  const code = parts.join("");
+  if (!code) {
+    throw new Error("The code format produced an empty code");
+  }
+  if (code.length > MAX_CODE_LENGTH) {
+    throw new Error(`Codes can be at most ${MAX_CODE_LENGTH} characters`);
+  }
+
+  return code;
+}
+
+// Luhn mod 36 over the code's letters and digits, so a single mistyped
+// character or swapped pair is caught
+export function checksumCharacter(code: string) {
+  const characters = code.toUpperCase().replace(/[^0-9A-Z]/g, "");
+  const base = CHECKSUM_ALPHABET.length;
+  let sum = 0;
+  let double = true;
+
+  for (let i = characters.length - 1; i >= 0; i--) {
+    let value = CHECKSUM_ALPHABET.indexOf(characters[i]);
+    if (double) {
+      value *= 2;
+      value = Math.floor(value / base) + (value % base);
+    }
+    sum += value;
+    double = !double;
+  }
+
+  return CHECKSUM_ALPHABET[(base - (sum % base)) % base];
+}
+
+export function randomSegment(length: number) {
+  const bytes = new Uint8Array(length);
+  globalThis.crypto.getRandomValues(bytes);
+
+  return Array.from(
+    bytes,
+    (byte) => RANDOM_ALPHABET[byte % RANDOM_ALPHABET.length],
+  ).join("");
+}
+
+function formatToTemplate({ prefix, template, suffix }: CodeFormat) {
+  return `${prefix}${template}${suffix}`;
+}
+
+function parsePlaceholder(placeholder: string): CodeToken {
+  const [name, ...rest] = placeholder.split(":");
+  const argument = rest.join(":").trim();
+
+  switch (name.trim().toLowerCase()) {
+    case "name":
+      return { kind: "name" };
+    case "column":
+      if (!argument) {
+        throw new Error("{column:...} needs a column name");
+      }
+      return { kind: "column", column: argument };
+    case "seq":
+      return { kind: "seq", width: argument ? parseLength(argument, 1) : 1 };
+    case "random":
+      return {
+        kind: "random",
+        length: parseLength(argument, MIN_RANDOM_LENGTH),
+      };
+    case "checksum":
+      return { kind: "checksum" };
+    default:
+      throw new Error(`Unknown placeholder {${placeholder}}`);
+  }
+}
+
+function parseLength(value: string, minimum: number) {
+  const length = Number(value);
+  if (
+    !Number.isInteger(length) ||
+    length < minimum ||
+    length > MAX_SEGMENT_LENGTH
+  ) {
+    throw new Error(
+      `Lengths must be whole numbers from ${minimum} to ${MAX_SEGMENT_LENGTH}`,
+    );
+  }
+  return length;
+}
+
+function cleanValue(value: unknown) {
+  return String(value ?? "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "");
+}
@@ -1,144 +1,227 @@
+import {
+  getExportColumns,
+  getOriginalHeaders,
+  SURVEY_TEMPLATES,
+  type ExportColumn,
+  type ExportOptions,
+  type ExportProfile,
+} from "./export-profiles";
+
 interface DiscountResult {
   row: number;
   customer: string;
-  status: "success" | "error";
+  status: "success" | "error" | "would_create";
   discountCode?: string;
+  pledge?: number;
   amount?: number;
   message: string;
 }
 
-export function generateCSVWithCodes(
-  originalData: any[],
-  discountResults: DiscountResult[],
+export interface ExportInput {
+  // The uploaded file's headers, in its order
+  headers: string[];
+  // The uploaded rows and their results, in the same order. Row numbers are
+  // the file's own, so they can skip rows that were excluded.
+  originalData: any[];
+  results: DiscountResult[];
+  // When the run finished. Every row is stamped with this same time.
+  generatedAt: Date;
+}
+
+interface ExportRow {
+  data?: Record<string, unknown>;
+  result?: DiscountResult;
+  // 0-based position in `originalData`
+  index: number;
+}
+
+const EMPTY_EXPORT_MESSAGES: Record<ExportProfile, string> = {
+  full: "No data provided for CSV export",
+  summary: "No data provided for CSV export",
+  successful: "No successful discount codes to export",
+  errors: "No failed rows to export",
+};
+
+// Writes rows as CSV. Every field is quoted and its quotes doubled, so commas,
+// quotes and line breaks in backer data survive the round trip. Text that a
+// spreadsheet would run as a formula is prefixed with a quote.
+export function writeCSV(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows]
+    .map((values) => values.map(escapeField).join(","))
+    .join("\n");
+}
+
+function escapeField(value: unknown) {
+  let text = value === null || value === undefined ? "" : String(value);
+  // Backer names and notes come from outside the shop. Numbers are left alone
+  // so negative amounts stay numbers.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+// Writes a run's results in one of the export profiles, with the columns and
+// headers the merchant picked
+export function generateRunExport(
+  profile: ExportProfile,
+  input: ExportInput,
+  options: ExportOptions = {},
 ): string {
-  if (!originalData.length || !discountResults.length) {
-    throw new Error("No data provided for CSV export");
+  const available = getExportColumns(
+    profile,
+    getOriginalHeaders(input.headers, input.originalData),
+  );
+  const columns = selectColumns(available, options.columns);
+  const rows = exportRows(profile, input);
+
+  if (!rows.length) {
+    throw new Error(EMPTY_EXPORT_MESSAGES[profile]);
   }
 
-  // Create a map of row numbers to discount results for quick lookup
-  const resultMap = new Map<number, DiscountResult>();
-  discountResults.forEach((result) => {
-    resultMap.set(result.row - 1, result); // Convert to 0-based index
-  });
-
-  // Get original headers and add new columns
-  const originalHeaders = Object.keys(originalData[0]);
-  const newHeaders = [
-    ...originalHeaders,
-    "Discount_Code",
-    "Discount_Amount",
-    "Generation_Status",
-    "Generation_Message",
-    "Generated_At",
-  ];
-
-  // Create header row
-  const headerRow = newHeaders.map((header) => `"${header}"`).join(",");
-
-  // Create data rows
-  const dataRows = originalData.map((row, index) => {
-    const result = resultMap.get(index);
-
-    // Get original row values
-    const originalValues = originalHeaders.map((header) => {
-      const value = row[header] || "";
-      return `"${String(value).replace(/"/g, '""')}"`; // Escape quotes
-    });
-
-    // Add discount code information
-    const discountCode = result?.discountCode || "";
-    const discountAmount = result?.amount || "";
-    const generationStatus = result?.status || "not_processed";
-    const generationMessage = result?.message || "Not processed";
-    const generatedAt = new Date().toISOString();
-
-    const newValues = [
-      `"${discountCode}"`,
-      `"${discountAmount}"`,
-      `"${generationStatus}"`,
-      `"${generationMessage.replace(/"/g, '""')}"`, // Escape quotes
-      `"${generatedAt}"`,
-    ];
-
-    return [...originalValues, ...newValues].join(",");
-  });
-
-  // Combine header and data
-  return [headerRow, ...dataRows].join("\n");
+  return writeCSV(
+    columns.map((column) => column.header),
+    rows.map((row) =>
+      columns.map((column) => columnValue(column.key, row, input.generatedAt)),
+    ),
+  );
 }
 
-// Alternative function for generating a summary CSV
-export function generateSummaryCSV(discountResults: DiscountResult[]): string {
-  const headers = [
-    "Row",
-    "Customer_Name",
-    "Discount_Code",
-    "Discount_Amount",
-    "Status",
-    "Message",
-    "Generated_At",
-  ];
-
-  const headerRow = headers.map((h) => `"${h}"`).join(",");
-
-  const dataRows = discountResults.map((result) => {
-    const values = [
-      result.row,
-      result.customer || "",
-      result.discountCode || "",
-      result.amount || "",
-      result.status,
-      result.message || "",
-      new Date().toISOString(),
-    ];
-
-    return values.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(",");
-  });
-
-  return [headerRow, ...dataRows].join("\n");
+// The uploaded file with each backer's code and result added
+export function generateCSVWithCodes(
+  input: ExportInput,
+  options: ExportOptions = {},
+): string {
+  return generateRunExport("full", input, options);
 }
 
-// Function to generate CSV with only successful discount codes
-export function generateSuccessfulCodesCSV(
-  originalData: any[],
-  discountResults: DiscountResult[],
+// Backers with a code, in the layout a platform's survey import expects.
+// `fallbackColumns` (the run's backer ID and email columns) are used when the
+// upload has none of the headers the platform identifies backers by.
+export function generateSurveyCSV(
+  templateId: string,
+  input: ExportInput,
+  fallbackColumns: (string | undefined)[] = [],
 ): string {
-  const successfulResults = discountResults.filter(
-    (r) => r.status === "success" && r.discountCode,
+  const template = SURVEY_TEMPLATES.find(({ id }) => id === templateId);
+  if (!template) {
+    throw new Error(`Unknown survey template "${templateId}"`);
+  }
+
+  const headers = getOriginalHeaders(input.headers, input.originalData);
+  const byName = new Map(
+    headers.map((header) => [header.trim().toLowerCase(), header]),
   );
+  const identifier =
+    template.identifierHeaders
+      .map((header) => byName.get(header.toLowerCase()))
+      .find(Boolean) ??
+    fallbackColumns.find((column) => column && headers.includes(column));
+  if (!identifier) {
+    throw new Error(
+      `${template.label} needs a ${template.identifierHeaders.join(" or ")} column to match backers`,
+    );
+  }
 
-  if (!successfulResults.length) {
-    throw new Error("No successful discount codes to export");
+  // Backers without a code have nothing to import
+  const issued = input.results.flatMap((result, index) =>
+    result.status === "success" && result.discountCode
+      ? [{ result, data: input.originalData[index] }]
+      : [],
+  );
+  if (!issued.length) {
+    throw new Error(EMPTY_EXPORT_MESSAGES.successful);
   }
 
-  // Create a map for successful results
-  const resultMap = new Map<number, DiscountResult>();
-  successfulResults.forEach((result) => {
-    resultMap.set(result.row - 1, result);
-  });
+  return generateCSVWithCodes(
+    {
+      ...input,
+      originalData: issued.map(({ data }) => data),
+      results: issued.map(({ result }) => result),
+    },
+    {
+      columns: [
+        { key: `column:${identifier}`, header: identifier },
+        { key: "discountCode", header: template.codeHeader },
+      ],
+    },
+  );
+}
+
+function selectColumns(
+  available: ExportColumn[],
+  requested: ExportColumn[] | undefined,
+) {
+  if (!requested?.length) {
+    return available;
+  }
 
-  // Get original headers and add discount code column
-  const originalHeaders = Object.keys(originalData[0]);
-  const newHeaders = [...originalHeaders, "Discount_Code", "Discount_Amount"];
+  const keys = new Set(available.map((column) => column.key));
+  for (const column of requested) {
+    if (!keys.has(column.key)) {
+      throw new Error(`Unknown export column "${column.key}"`);
+    }
+  }
 
-  const headerRow = newHeaders.map((h) => `"${h}"`).join(",");
+  const defaults = new Map(
+    available.map((column) => [column.key, column.header]),
+  );
+  return requested.map((column) => ({
+    key: column.key,
+    header: column.header.trim() || defaults.get(column.key)!,
+  }));
+}
 
-  // Only include rows that had successful discount generation
-  const dataRows = originalData
-    .map((row, index) => {
-      const result = resultMap.get(index);
-      if (!result || result.status !== "success") return null;
+function exportRows(profile: ExportProfile, input: ExportInput): ExportRow[] {
+  if (profile === "summary") {
+    return input.results.map((result, index) => ({
+      data: input.originalData[index],
+      result,
+      index,
+    }));
+  }
 
-      const originalValues = originalHeaders.map((header) => {
-        const value = row[header] || "";
-        return `"${String(value).replace(/"/g, '""')}"`;
-      });
+  const rows: ExportRow[] = input.originalData.map((data, index) => ({
+    data,
+    result: input.results[index],
+    index,
+  }));
 
-      const newValues = [`"${result.discountCode}"`, `"${result.amount}"`];
+  if (profile === "successful") {
+    return rows.filter(
+      ({ result }) => result?.status === "success" && result.discountCode,
+    );
+  }
+  if (profile === "errors") {
+    return rows.filter(({ result }) => result?.status === "error");
+  }
+  return rows;
+}
 
-      return [...originalValues, ...newValues].join(",");
-    })
-    .filter((row) => row !== null);
+function columnValue(key: string, row: ExportRow, generatedAt: Date) {
+  if (key.startsWith("column:")) {
+    return row.data?.[key.slice("column:".length)];
+  }
 
-  return [headerRow, ...dataRows].join("\n");
+  const { result } = row;
+  switch (key) {
+    case "row":
+      return result?.row ?? row.index + 1;
+    case "customer":
+      return result?.customer;
+    case "discountCode":
+      return result?.discountCode;
+    case "pledge":
+      return result?.pledge;
+    case "amount":
+      return result?.amount;
+    case "status":
+      return result?.status ?? "not_processed";
+    case "message":
+      return result?.message ?? "Not processed";
+    case "generatedAt":
+      return generatedAt.toISOString();
+    default:
+      return undefined;
+  }
 }
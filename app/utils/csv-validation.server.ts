@@ -0,0 +1,223 @@
+import { currencyMismatch, parsePrice, type PriceFormat } from "./price";
+
+// Problems the pre-flight check looks for. Errors are rows that would fail
+// to generate; warnings are rows that would work but look wrong.
+export type ValidationIssueKind =
+  | "missing_name"
+  | "invalid_price"
+  | "column_count"
+  | "encoding"
+  | "zero_amount"
+  | "outlier_amount"
+  | "currency"
+  | "duplicate_name"
+  | "duplicate_email";
+
+const ISSUE_GROUPS: {
+  kind: ValidationIssueKind;
+  label: string;
+  severity: "error" | "warning";
+}[] = [
+  { kind: "missing_name", label: "Empty names", severity: "error" },
+  { kind: "invalid_price", label: "Unreadable prices", severity: "error" },
+  {
+    kind: "column_count",
+    label: "Wrong number of columns",
+    severity: "warning",
+  },
+  { kind: "encoding", label: "Garbled characters", severity: "warning" },
+  { kind: "zero_amount", label: "Zero pledges", severity: "warning" },
+  { kind: "outlier_amount", label: "Unusual pledges", severity: "warning" },
+  {
+    kind: "currency",
+    label: "Prices in another currency",
+    severity: "warning",
+  },
+  { kind: "duplicate_name", label: "Duplicate names", severity: "warning" },
+  {
+    kind: "duplicate_email",
+    label: "Duplicate emails or backer IDs",
+    severity: "warning",
+  },
+];
+
+export interface ValidationOptions {
+  nameColumn: string;
+  priceColumn: string;
+  priceFormat?: PriceFormat;
+  shopCurrency?: string | null;
+  // Columns of backer emails (or platform backer IDs) to check for duplicates
+  emailColumns: string[];
+}
+
+export interface ValidationIssue {
+  // 1-based, like the rows of a run
+  row: number;
+  customer: string;
+  kind: ValidationIssueKind;
+  message: string;
+}
+
+export interface ValidationReport {
+  rowCount: number;
+  // Rows with at least one issue
+  flaggedRows: number;
+  groups: {
+    kind: ValidationIssueKind;
+    label: string;
+    severity: "error" | "warning";
+    issues: ValidationIssue[];
+  }[];
+}
+
+// A pledge is unusual when it's this many interquartile ranges outside the
+// middle half of all pledges
+const OUTLIER_IQR_FACTOR = 3;
+// Quartiles mean little for a handful of rows
+const MIN_ROWS_FOR_OUTLIERS = 8;
+
+// The replacement character TextDecoder puts in for bytes that aren't UTF-8
+const UNREADABLE_CHARACTER = "\uFFFD";
+// UTF-8 text that was read as Windows-1252 and saved again, as Excel does:
+// "é" becomes "Ã©", "’" becomes "â€™"
+const MOJIBAKE =
+  /Ã[\u0080-\u00BF\u0152-\u0178\u2013-\u2122]|â€|Â[\u00A0-\u00BF]/;
+
+// Scans every row of an upload for problems worth fixing (or excluding)
+// before generating codes
+export function validateRows(
+  headers: string[],
+  data: Record<string, unknown>[],
+  options: ValidationOptions,
+): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const pledges: { row: number; customer: string; amount: number }[] = [];
+  const firstByName = new Map<string, number>();
+  const firstByEmail = new Map<string, number>();
+
+  data.forEach((values, index) => {
+    const row = index + 1;
+    const name = String(values[options.nameColumn] ?? "").trim();
+    const customer = name || "Unknown";
+    const flag = (kind: ValidationIssueKind, message: string) =>
+      issues.push({ row, customer, kind, message });
+
+    if (!name) {
+      flag("missing_name", "Missing name");
+    } else {
+      const key = name.toLowerCase().replace(/\s+/g, " ");
+      const first = firstByName.get(key);
+      if (first) {
+        flag("duplicate_name", `Same name as row ${first}`);
+      } else {
+        firstByName.set(key, row);
+      }
+    }
+
+    const price = parsePrice(values[options.priceColumn], options.priceFormat);
+    if (!price.ok) {
+      flag("invalid_price", price.reason);
+    } else if (price.amount < 0) {
+      flag("invalid_price", "Price is negative, so the pledge looks refunded");
+    } else if (price.amount === 0) {
+      flag("zero_amount", "Pledge is 0");
+    } else {
+      pledges.push({ row, customer, amount: price.amount });
+    }
+
+    const mismatch = price.ok
+      ? currencyMismatch(price.currencies, options.shopCurrency)
+      : null;
+    if (mismatch) {
+      flag("currency", mismatch);
+    }
+
+    for (const column of options.emailColumns) {
+      const email = String(values[column] ?? "")
+        .trim()
+        .toLowerCase();
+      if (!email) {
+        continue;
+      }
+
+      const first = firstByEmail.get(email);
+      if (first && first !== row) {
+        flag("duplicate_email", `Same ${column} as row ${first}`);
+        break;
+      }
+      firstByEmail.set(email, row);
+    }
+
+    // csv-parser leaves out missing trailing cells and names extra ones
+    // "_3", "_4", ...
+    const columns = Object.keys(values).length;
+    if (columns !== headers.length) {
+      flag(
+        "column_count",
+        `Has ${columns} columns, the header has ${headers.length}`,
+      );
+    }
+
+    const text = Object.values(values).map(String).join(" ");
+    if (text.includes(UNREADABLE_CHARACTER)) {
+      flag(
+        "encoding",
+        "Has characters that couldn't be read; the file may not be saved as UTF-8",
+      );
+    } else {
+      const garbled = text.match(MOJIBAKE);
+      if (garbled) {
+        flag(
+          "encoding",
+          `Has garbled text ("${garbled[0]}"), typical of a file re-saved by Excel`,
+        );
+      }
+    }
+  });
+
+  for (const outlier of findOutliers(pledges)) {
+    issues.push({
+      row: outlier.row,
+      customer: outlier.customer,
+      kind: "outlier_amount",
+      message: `Pledge of ${outlier.amount} is far from the others`,
+    });
+  }
+
+  return {
+    rowCount: data.length,
+    flaggedRows: new Set(issues.map((issue) => issue.row)).size,
+    groups: ISSUE_GROUPS.map((group) => ({
+      ...group,
+      issues: issues
+        .filter((issue) => issue.kind === group.kind)
+        .sort((a, b) => a.row - b.row),
+    })).filter((group) => group.issues.length),
+  };
+}
+
+function findOutliers<T extends { amount: number }>(pledges: T[]) {
+  if (pledges.length < MIN_ROWS_FOR_OUTLIERS) {
+    return [];
+  }
+
+  const sorted = pledges.map((pledge) => pledge.amount).sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  // Identical pledges leave no spread to measure against
+  if (iqr === 0) {
+    return [];
+  }
+
+  const low = q1 - OUTLIER_IQR_FACTOR * iqr;
+  const high = q3 + OUTLIER_IQR_FACTOR * iqr;
+  return pledges.filter(({ amount }) => amount < low || amount > high);
+}
+
+function quantile(sorted: number[], q: number) {
+  const position = (sorted.length - 1) * q;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
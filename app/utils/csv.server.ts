@@ -1,37 +1,173 @@
 import csv from "csv-parser";
 import { Readable } from "stream";
+import type { RowSource } from "./uploads.server";
 
-export async function parseCSV(file: File) {
-  const buffer = await file.arrayBuffer();
-  const text = new TextDecoder().decode(buffer);
-
-  return new Promise((resolve, reject) => {
-    const results: any[] = [];
-    let headers: string[] = [];
-    let isFirstRow = true;
-
-    const stream = Readable.from(text);
-
-    stream
-      .pipe(csv())
-      .on("headers", (headerList: string[]) => {
-        headers = headerList;
-      })
-      .on("data", (data: any) => {
-        if (isFirstRow) {
-          isFirstRow = false;
-        }
-        results.push(data);
-      })
-      .on("end", () => {
-        resolve({
-          headers,
-          data: results,
-          rowCount: results.length,
-        });
-      })
-      .on("error", (error: Error) => {
-        reject(new Error(`Error parsing CSV: ${error.message}`));
-      });
+// How much of the file is looked at to pick the encoding and delimiter
+const SAMPLE_BYTES = 64 * 1024;
+
+const DELIMITERS = [",", ";", "\t"];
+
+const ENCODING_LABELS: Record<string, string> = {
+  "utf-8": "UTF-8",
+  "utf-16le": "UTF-16",
+  "utf-16be": "UTF-16 (big-endian)",
+  "windows-1252": "Windows-1252",
+};
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "comma-separated",
+  ";": "semicolon-separated",
+  "\t": "tab-separated",
+};
+
+// Streams a CSV upload row by row. The encoding (UTF-8, UTF-16 or the
+// Windows-1252 that Excel often saves) and the delimiter are worked out from
+// the start of the file, so nothing but that sample is held in memory. The
+// rest of the file is decoded strictly: bytes past the sample that don't fit
+// the encoding fail the upload rather than turning into replacement
+// characters, since the rows before them are already on their way to the
+// database and can't be read again.
+export async function parseCSV(
+  input: AsyncIterable<Uint8Array>,
+): Promise<RowSource> {
+  const chunks = input[Symbol.asyncIterator]();
+  const sample = await readSample(chunks);
+
+  const encoding = detectEncoding(sample.bytes, sample.done);
+  // TextDecoder drops a byte order mark that matches the encoding
+  const decoder = new TextDecoder(encoding, { fatal: true });
+  const decodeStrictly = (bytes?: Uint8Array, stream = false) => {
+    try {
+      return decoder.decode(bytes, { stream });
+    } catch {
+      throw new Error(
+        `The file isn't valid ${ENCODING_LABELS[encoding]} throughout. Save it as "CSV UTF-8" and upload it again.`,
+      );
+    }
+  };
+  const sampleText = decodeStrictly(sample.bytes, !sample.done);
+  const delimiter = detectDelimiter(sampleText);
+
+  async function* decode() {
+    yield sampleText;
+    if (sample.done) {
+      return;
+    }
+
+    while (true) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        break;
+      }
+      yield decodeStrictly(value, true);
+    }
+    yield decodeStrictly();
+  }
+
+  const parser = csv({ separator: delimiter });
+  const text = Readable.from(decode());
+  text.on("error", (error) =>
+    parser.destroy(new Error(`Error reading CSV: ${error.message}`)),
+  );
+  parser.on("error", () => text.destroy());
+
+  const source: RowSource = {
+    headers: [],
+    rows: text.pipe(parser),
+    format: `${ENCODING_LABELS[encoding]}, ${DELIMITER_LABELS[delimiter]}`,
+  };
+  parser.on("headers", (headers: string[]) => {
+    source.headers = headers;
   });
+
+  return source;
+}
+
+async function readSample(chunks: AsyncIterator<Uint8Array>) {
+  const read: Uint8Array[] = [];
+  let length = 0;
+  let done = false;
+
+  while (length < SAMPLE_BYTES) {
+    const result = await chunks.next();
+    if (result.done) {
+      done = true;
+      break;
+    }
+    read.push(result.value);
+    length += result.value.length;
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of read) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return { bytes, done };
+}
+
+function detectEncoding(bytes: Uint8Array, complete: boolean) {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return "utf-16le";
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return "utf-16be";
+  }
+
+  // UTF-16 without a byte order mark: ASCII text leaves every other byte 0
+  const checked = Math.min(bytes.length, 1000);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < checked; i++) {
+    if (bytes[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  if (oddZeros > checked / 4) {
+    return "utf-16le";
+  }
+  if (evenZeros > checked / 4) {
+    return "utf-16be";
+  }
+
+  // Anything that isn't valid UTF-8 is taken to be Windows-1252. Streaming
+  // mode ignores a character cut in half at the end of the sample.
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, {
+      stream: !complete,
+    });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+// The delimiter used most in the header line, outside quotes
+function detectDelimiter(text: string) {
+  const counts = new Map(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let quoted = false;
+
+  for (const character of text) {
+    if (character === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (character === "\n" || character === "\r")) {
+      break;
+    } else if (!quoted && counts.has(character)) {
+      counts.set(character, counts.get(character)! + 1);
+    }
+  }
+
+  let best = ",";
+  for (const [delimiter, count] of counts) {
+    if (count > counts.get(best)!) {
+      best = delimiter;
+    }
+  }
+  return best;
 }
@@ -0,0 +1,207 @@
+import type { AdminClient } from "./admin-client.server";
+import { createCustomerResolver, findRowEmail } from "./customers.server";
+
+// Metafields live under the app's own namespace so they never clash with
+// fields the shop or other apps define on customers
+export const CUSTOMER_SYNC_NAMESPACE = "crowdfunding";
+
+const MAX_CAMPAIGN_NAME_LENGTH = 255;
+const MAX_TAG_LENGTH = 255;
+
+const METAFIELDS_SET = `
+  mutation customerSyncMetafields($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      metafields {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const TAGS_ADD = `
+  mutation customerSyncTags($id: ID!, $tags: [String!]!) {
+    tagsAdd(id: $id, tags: $tags) {
+      node {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Written to each matching customer once a run's codes exist
+export interface CustomerSyncOptions {
+  campaignName: string;
+  // Added to the customer's tags. No tag is added without one.
+  tag?: string;
+}
+
+export type CustomerSyncStatus = "pending" | "synced" | "skipped" | "error";
+
+export interface CustomerSyncResult {
+  status: Exclude<CustomerSyncStatus, "pending">;
+  message: string;
+}
+
+// The parts of a stored row the sync needs
+export interface SyncRow {
+  customerId: string | null;
+  discountCode: string | null;
+  amount: number | null;
+  rowData: Record<string, unknown>;
+}
+
+export function validateCustomerSync(
+  options: Partial<CustomerSyncOptions>,
+): string | null {
+  const campaignName = options.campaignName?.trim() ?? "";
+  if (!campaignName) {
+    return "Enter the campaign name to write to customers";
+  }
+  if (campaignName.length > MAX_CAMPAIGN_NAME_LENGTH) {
+    return `The campaign name must be at most ${MAX_CAMPAIGN_NAME_LENGTH} characters`;
+  }
+
+  const tag = options.tag?.trim() ?? "";
+  if (tag.includes(",")) {
+    // Shopify splits tags on commas, so one would become several
+    return "The customer tag can't contain commas";
+  }
+  if (tag.length > MAX_TAG_LENGTH) {
+    return `The customer tag must be at most ${MAX_TAG_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+// Writes a backer's code, amount and campaign to their Shopify customer and
+// tags them. Rows whose code is tied to a customer use that customer; the
+// rest are matched by email from `emailColumns`, in order. Customers are only
+// ever looked up here, never created.
+export function createCustomerSync(
+  client: AdminClient,
+  options: CustomerSyncOptions,
+  emailColumns: (string | undefined)[],
+) {
+  const resolver = createCustomerResolver(client, { createMissing: false });
+  const campaignName = options.campaignName.trim();
+  const tag = options.tag?.trim();
+
+  const findCustomer = async (
+    row: SyncRow,
+  ): Promise<{ customerId: string } | CustomerSyncResult> => {
+    if (row.customerId) {
+      return { customerId: row.customerId };
+    }
+
+    const email = findRowEmail(row.rowData, emailColumns);
+    if (!email) {
+      return { status: "skipped", message: "No email to find the customer by" };
+    }
+
+    const match = await resolver.resolve(email, "");
+    if ("error" in match) {
+      return { status: "error", message: match.error };
+    }
+    if (!match.customerId) {
+      return {
+        status: "skipped",
+        message: `No customer with the email ${email}`,
+      };
+    }
+    return { customerId: match.customerId };
+  };
+
+  return {
+    async syncRow(row: SyncRow): Promise<CustomerSyncResult> {
+      if (!row.discountCode) {
+        return { status: "skipped", message: "The row has no discount code" };
+      }
+
+      const customer = await findCustomer(row);
+      if ("status" in customer) {
+        return customer;
+      }
+
+      const metafields = [
+        {
+          key: "discount_code",
+          type: "single_line_text_field",
+          value: row.discountCode,
+        },
+        {
+          key: "campaign",
+          type: "single_line_text_field",
+          value: campaignName,
+        },
+      ];
+      if (row.amount !== null) {
+        metafields.push({
+          key: "discount_amount",
+          type: "number_decimal",
+          value: String(row.amount),
+        });
+      }
+
+      const written = await client.request(METAFIELDS_SET, {
+        metafields: metafields.map((metafield) => ({
+          ...metafield,
+          ownerId: customer.customerId,
+          namespace: CUSTOMER_SYNC_NAMESPACE,
+        })),
+      });
+      const metafieldsError = mutationError(written, "metafieldsSet");
+      if (metafieldsError) {
+        return {
+          status: "error",
+          message: `Could not write metafields: ${metafieldsError}`,
+        };
+      }
+
+      if (tag) {
+        const tagged = await client.request(TAGS_ADD, {
+          id: customer.customerId,
+          tags: [tag],
+        });
+        const tagError = mutationError(tagged, "tagsAdd");
+        if (tagError) {
+          return {
+            status: "error",
+            message: `Metafields written, but the tag could not be added: ${tagError}`,
+          };
+        }
+      }
+
+      return {
+        status: "synced",
+        message: tag
+          ? `Code written to ${customer.customerId} and tagged "${tag}"`
+          : `Code written to ${customer.customerId}`,
+      };
+    },
+  };
+}
+
+function mutationError(
+  response: { data?: any; errors?: any[] },
+  field: string,
+): string | null {
+  if (response.errors?.length) {
+    throw new Error(response.errors.map((e: any) => e.message).join(", "));
+  }
+
+  const userErrors = response.data?.[field]?.userErrors ?? [];
+  if (userErrors.length) {
+    return userErrors
+      .map((e: any) => `${e.field || "unknown"}: ${e.message}`)
+      .join(", ");
+  }
+  return null;
+}
@@ -0,0 +1,143 @@
+import type { AdminClient } from "./admin-client.server";
+
+const FIND_CUSTOMERS_BY_EMAIL = `
+  query findCustomersByEmail($query: String!) {
+    customers(first: 5, query: $query) {
+      nodes {
+        id
+        email
+      }
+    }
+  }
+`;
+
+const CUSTOMER_CREATE = `
+  mutation customerCreate($input: CustomerInput!) {
+    customerCreate(input: $input) {
+      customer {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// The first value that looks like an email among a row's `columns`. Backer
+// key columns may hold a platform ID rather than an email.
+export function findRowEmail(
+  rowData: Record<string, unknown>,
+  columns: (string | undefined)[],
+): string | null {
+  return (
+    columns
+      .map((column) => (column ? String(rowData[column] ?? "").trim() : ""))
+      .find((value) => value.includes("@")) ?? null
+  );
+}
+
+export type CustomerMatch =
+  | { customerId: string; created: boolean }
+  // Only when missing customers aren't created: nobody has the email yet
+  | { customerId: null; created: false }
+  | { error: string };
+
+export interface CustomerResolver {
+  resolve(email: string, name: string): Promise<CustomerMatch>;
+}
+
+// Finds the Shopify customer with the backer's email, creating one when the
+// shop doesn't know them yet. Lookups are cached per resolver so backers
+// listed twice in a file map to the same customer. Dry runs pass
+// `createMissing: false` so the shop's customers are only ever read.
+export function createCustomerResolver(
+  client: AdminClient,
+  { createMissing = true } = {},
+): CustomerResolver {
+  const cache = new Map<string, Promise<CustomerMatch>>();
+
+  return {
+    resolve(email, name) {
+      const normalized = email.trim().toLowerCase();
+      if (!normalized) {
+        return Promise.resolve({ error: "Missing email" });
+      }
+      if (!EMAIL_PATTERN.test(normalized)) {
+        return Promise.resolve({ error: `Invalid email "${email.trim()}"` });
+      }
+
+      if (!cache.has(normalized)) {
+        const match = findOrCreateCustomer(
+          client,
+          normalized,
+          name,
+          createMissing,
+        ).catch((error) => {
+          cache.delete(normalized);
+          throw error;
+        });
+        cache.set(normalized, match);
+      }
+      return cache.get(normalized)!;
+    },
+  };
+}
+
+async function findOrCreateCustomer(
+  client: AdminClient,
+  email: string,
+  name: string,
+  createMissing: boolean,
+): Promise<CustomerMatch> {
+  const response = await client.request(FIND_CUSTOMERS_BY_EMAIL, {
+    query: `email:"${email.replace(/"/g, '\\"')}"`,
+  });
+
+  if (response.errors?.length) {
+    throw new Error(response.errors.map((e: any) => e.message).join(", "));
+  }
+
+  // The search also matches partial emails, so only exact matches count
+  const matches = (response.data?.customers?.nodes ?? []).filter(
+    (customer: any) => customer.email?.toLowerCase() === email,
+  );
+
+  if (matches.length > 1) {
+    return {
+      error: `Ambiguous customer match: ${matches.length} customers have the email ${email}`,
+    };
+  }
+  if (matches.length === 1) {
+    return { customerId: matches[0].id, created: false };
+  }
+  if (!createMissing) {
+    return { customerId: null, created: false };
+  }
+
+  const [firstName, ...rest] = name.trim().split(/\s+/);
+  const created = await client.request(CUSTOMER_CREATE, {
+    input: {
+      email,
+      firstName: firstName || undefined,
+      lastName: rest.join(" ") || undefined,
+    },
+  });
+
+  const customerCreate = created.data?.customerCreate;
+  if (customerCreate?.userErrors?.length) {
+    return {
+      error: `Could not create customer: ${customerCreate.userErrors
+        .map((e: any) => `${e.field || "unknown"}: ${e.message}`)
+        .join(", ")}`,
+    };
+  }
+  if (!customerCreate?.customer) {
+    throw new Error("No customer in customerCreate response");
+  }
+
+  return { customerId: customerCreate.customer.id, created: true };
+}
@@ -0,0 +1,138 @@
+// When and how a generated discount can be used: dates, minimums, usage
+// limits and which other discounts it combines with. Shared by the mapping
+// step and the job worker. Runs without constraints keep the original
+// behaviour: starts when created, never ends, one use, once per customer.
+
+export interface DiscountConstraints {
+  // ISO timestamps. No start means "when the code is created".
+  startsAt?: string;
+  endsAt?: string;
+  // Alternative to endsAt: the code expires this many days after it's created
+  expiresAfterDays?: number;
+  minimumRequirement?: {
+    type: "none" | "subtotal" | "quantity";
+    value?: number;
+  };
+  // Uses across all customers. null means unlimited.
+  usageLimit?: number | null;
+  appliesOncePerCustomer?: boolean;
+  combinesWith?: {
+    orderDiscounts: boolean;
+    productDiscounts: boolean;
+    shippingDiscounts: boolean;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Returns an error message, or null when the constraints are usable
+export function validateDiscountConstraints(
+  constraints: DiscountConstraints,
+  discountType: string,
+) {
+  const startsAt = constraints.startsAt
+    ? Date.parse(constraints.startsAt)
+    : null;
+  const endsAt = constraints.endsAt ? Date.parse(constraints.endsAt) : null;
+
+  if (startsAt !== null && isNaN(startsAt)) {
+    return "Invalid start date";
+  }
+  if (endsAt !== null && isNaN(endsAt)) {
+    return "Invalid end date";
+  }
+  if (endsAt !== null && endsAt <= (startsAt ?? Date.now())) {
+    return "The end date must be after the start date";
+  }
+
+  if (constraints.expiresAfterDays !== undefined) {
+    if (endsAt !== null) {
+      return "Choose either an end date or a number of days, not both";
+    }
+    if (
+      !Number.isInteger(constraints.expiresAfterDays) ||
+      constraints.expiresAfterDays < 1
+    ) {
+      return "Codes must expire at least 1 whole day after they're created";
+    }
+  }
+
+  const minimum = constraints.minimumRequirement;
+  if (minimum && minimum.type !== "none") {
+    if (discountType === "bxgy") {
+      return "Buy X get Y discounts set their minimum with the buy quantity";
+    }
+    if (!(minimum.value! > 0)) {
+      return "Enter a minimum greater than 0";
+    }
+    if (minimum.type === "quantity" && !Number.isInteger(minimum.value)) {
+      return "The minimum quantity must be a whole number";
+    }
+  }
+
+  const { usageLimit } = constraints;
+  if (
+    usageLimit !== undefined &&
+    usageLimit !== null &&
+    (!Number.isInteger(usageLimit) || usageLimit < 1)
+  ) {
+    return "The usage limit must be a whole number of at least 1";
+  }
+
+  return null;
+}
+
+// The usage limit for a discount that belongs to one backer
+export function getUsageLimit(constraints?: DiscountConstraints) {
+  return constraints?.usageLimit === undefined ? 1 : constraints.usageLimit;
+}
+
+// The constraint fields of a code discount input, for a code created at `now`
+export function buildConstraintInput(
+  constraints: DiscountConstraints = {},
+  now: Date,
+) {
+  let endsAt = constraints.endsAt ?? null;
+  if (constraints.expiresAfterDays) {
+    const startsAt = constraints.startsAt
+      ? Math.max(Date.parse(constraints.startsAt), now.getTime())
+      : now.getTime();
+    endsAt = new Date(
+      startsAt + constraints.expiresAfterDays * DAY_MS,
+    ).toISOString();
+  }
+
+  const minimumRequirement = buildMinimumRequirement(
+    constraints.minimumRequirement,
+  );
+
+  return {
+    startsAt: constraints.startsAt ?? now.toISOString(),
+    endsAt,
+    // Buy X get Y inputs have no minimum requirement, so it's left out
+    // rather than sent as null
+    ...(minimumRequirement ? { minimumRequirement } : {}),
+    appliesOncePerCustomer: constraints.appliesOncePerCustomer ?? true,
+    combinesWith: constraints.combinesWith ?? {
+      orderDiscounts: false,
+      productDiscounts: false,
+      shippingDiscounts: false,
+    },
+  };
+}
+
+function buildMinimumRequirement(
+  minimum: DiscountConstraints["minimumRequirement"],
+) {
+  if (minimum?.type === "subtotal") {
+    return {
+      subtotal: { greaterThanOrEqualToSubtotal: String(minimum.value) },
+    };
+  }
+  if (minimum?.type === "quantity") {
+    return {
+      quantity: { greaterThanOrEqualToQuantity: String(minimum.value) },
+    };
+  }
+  return null;
+}
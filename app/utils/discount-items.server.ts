@@ -0,0 +1,156 @@
+import type { AdminClient } from "./admin-client.server";
+import type { DiscountItems, DiscountSettings } from "./discount-types.server";
+
+const RESOLVE_ITEM_REFERENCE = `
+  query resolveItemReference($handle: String!, $skuQuery: String!) {
+    productByIdentifier(identifier: { handle: $handle }) {
+      id
+    }
+    productVariants(first: 5, query: $skuQuery) {
+      nodes {
+        id
+        sku
+      }
+    }
+  }
+`;
+
+const GID_PATTERN =
+  /^gid:\/\/shopify\/(Product|ProductVariant|Collection)\/\d+$/;
+const GID_KINDS = {
+  Product: "product",
+  ProductVariant: "variant",
+  Collection: "collection",
+} as const;
+
+type ResolvedReference =
+  | { kind: "product" | "variant" | "collection"; id: string }
+  | { error: string };
+
+export interface ItemResolver {
+  resolve(cell: string): Promise<{ items: DiscountItems } | { error: string }>;
+}
+
+// Resolves an items column cell (product handles, variant SKUs or GIDs,
+// separated by commas, semicolons or pipes) to the GIDs a discount needs.
+// Backers of the same reward share references, so each one is only looked up
+// once per resolver.
+export function createItemResolver(client: AdminClient): ItemResolver {
+  const cache = new Map<string, Promise<ResolvedReference>>();
+
+  const lookup = (reference: string) => {
+    if (!cache.has(reference)) {
+      // Don't cache failed requests, the next backer should try again
+      const resolved = resolveReference(client, reference).catch((error) => {
+        cache.delete(reference);
+        throw error;
+      });
+      cache.set(reference, resolved);
+    }
+    return cache.get(reference)!;
+  };
+
+  return {
+    async resolve(cell) {
+      const references = cell
+        .split(/[,;|]/)
+        .map((reference) => reference.trim())
+        .filter(Boolean);
+
+      const items: DiscountItems = {
+        productIds: [],
+        variantIds: [],
+        collectionIds: [],
+      };
+
+      for (const reference of references) {
+        const resolved = await lookup(reference);
+        if ("error" in resolved) {
+          return resolved;
+        }
+
+        const ids = {
+          product: items.productIds,
+          variant: items.variantIds,
+          collection: items.collectionIds,
+        }[resolved.kind];
+        if (!ids.includes(resolved.id)) {
+          ids.push(resolved.id);
+        }
+      }
+
+      if (
+        items.collectionIds.length &&
+        (items.productIds.length || items.variantIds.length)
+      ) {
+        return {
+          error: "A discount can apply to collections or to products, not both",
+        };
+      }
+
+      return { items };
+    },
+  };
+}
+
+// The items a row's discount applies to: the row's own items when an items
+// column is mapped, otherwise the picker selection (if any)
+export async function resolveRowItems(
+  resolver: ItemResolver,
+  row: any,
+  settings: DiscountSettings,
+): Promise<{ items?: DiscountItems } | { error: string }> {
+  if (!settings.itemsColumn) {
+    return { items: settings.items };
+  }
+
+  const cell = String(row[settings.itemsColumn] ?? "").trim();
+  if (!cell) {
+    return { error: "No reward items in the items column" };
+  }
+
+  return resolver.resolve(cell);
+}
+
+async function resolveReference(
+  client: AdminClient,
+  reference: string,
+): Promise<ResolvedReference> {
+  const gid = reference.match(GID_PATTERN);
+  if (gid) {
+    return {
+      kind: GID_KINDS[gid[1] as keyof typeof GID_KINDS],
+      id: reference,
+    };
+  }
+
+  const response = await client.request(RESOLVE_ITEM_REFERENCE, {
+    handle: reference,
+    skuQuery: `sku:"${reference.replace(/"/g, '\\"')}"`,
+  });
+
+  if (response.errors?.length) {
+    return {
+      error: `Could not look up "${reference}": ${response.errors.map((e: any) => e.message).join(", ")}`,
+    };
+  }
+
+  // Handles are unique per shop, so a matching product wins over a SKU
+  const product = response.data?.productByIdentifier;
+  if (product) {
+    return { kind: "product", id: product.id };
+  }
+
+  // The search matches SKUs loosely, so only exact matches count
+  const variants = (response.data?.productVariants?.nodes ?? []).filter(
+    (variant: any) => variant.sku === reference,
+  );
+  if (variants.length > 1) {
+    return { error: `SKU "${reference}" matches more than one variant` };
+  }
+  if (variants.length === 1) {
+    return { kind: "variant", id: variants[0].id };
+  }
+
+  return { error: `No product handle or variant SKU matches "${reference}"` };
+}
@@ -0,0 +1,382 @@
+import {
+  applyAmountRules,
+  DEFAULT_AMOUNT_RULES,
+  validateAmountRules,
+  type AmountRules,
+} from "./amount-rules";
+import { validateCodeFormat, type CodeFormat } from "./code-template";
+import {
+  validateDiscountConstraints,
+  type DiscountConstraints,
+} from "./discount-constraints";
+import { parsePrice, type PriceFormat } from "./price";
+
+export type DiscountType =
+  | "fixed_amount"
+  | "percentage"
+  | "free_shipping"
+  | "bxgy";
+
+export interface DiscountSettings {
+  type: DiscountType;
+  // Where each row's value comes from: a CSV column (the price column unless
+  // `valueColumn` is set) or the same constant for every backer
+  valueSource: "column" | "constant";
+  valueColumn?: string;
+  constantValue?: number;
+  // Buy X get Y only. The value is the percentage off the "get" items.
+  buyQuantity?: number;
+  getQuantity?: number;
+  // Items picked in the resource picker. Without these (or an items column)
+  // the discount applies to the whole store.
+  items?: DiscountItems;
+  // Column of product handles or variant SKUs, resolved for each row
+  itemsColumn?: string;
+  // Column of backer emails. When set, each code only works for the Shopify
+  // customer with that email (created if the shop doesn't have one yet).
+  customerEmailColumn?: string;
+  // How codes are built. Older runs don't have one and use the default.
+  codeFormat?: CodeFormat;
+  // Decimal separator used by the file's price columns
+  priceFormat?: PriceFormat;
+  // How a pledge becomes the discount value when it comes from a column.
+  // Older runs don't have any and use the pledge as it is.
+  amountRules?: AmountRules;
+  // Dates, minimums, usage limit and combinations. Older runs don't have any.
+  constraints?: DiscountConstraints;
+}
+
+// Shopify GIDs of the products, variants or collections a discount applies to
+export interface DiscountItems {
+  productIds: string[];
+  variantIds: string[];
+  collectionIds: string[];
+}
+
+export const DEFAULT_DISCOUNT_SETTINGS: DiscountSettings = {
+  type: "fixed_amount",
+  valueSource: "column",
+};
+
+// Fields every code discount input shares, whatever its type
+export interface BaseDiscountInput {
+  title: string;
+  code: string;
+  startsAt: string;
+  endsAt: string | null;
+  customerSelection: Record<string, unknown>;
+  appliesOncePerCustomer: boolean;
+  usageLimit: number | null;
+  minimumRequirement?: Record<string, unknown>;
+  combinesWith: {
+    orderDiscounts: boolean;
+    productDiscounts: boolean;
+    shippingDiscounts: boolean;
+  };
+}
+
+interface DiscountTypeDefinition {
+  mutation: string;
+  responseKey: string;
+  needsValue: boolean;
+  validateValue: (value: number) => string | null;
+  buildVariables: (
+    base: BaseDiscountInput,
+    value: number,
+    settings: DiscountSettings,
+    items: Record<string, unknown>,
+  ) => Record<string, unknown>;
+  describe: (value: number) => string;
+}
+
+const DISCOUNT_RESULT_FIELDS = `
+  codeDiscountNode {
+    id
+  }
+  userErrors {
+    field
+    message
+  }
+`;
+
+const validatePercentage = (value: number) =>
+  value > 0 && value <= 100 ? null : "Percentage must be between 0 and 100";
+
+const DISCOUNT_TYPES: Record<DiscountType, DiscountTypeDefinition> = {
+  fixed_amount: {
+    mutation: `
+      mutation discountCodeBasicCreate($basicCodeDiscount: DiscountCodeBasicInput!) {
+        discountCodeBasicCreate(basicCodeDiscount: $basicCodeDiscount) {
+          ${DISCOUNT_RESULT_FIELDS}
+        }
+      }
+    `,
+    responseKey: "discountCodeBasicCreate",
+    needsValue: true,
+    validateValue: (value) =>
+      value > 0 ? null : "Amount must be greater than 0",
+    buildVariables: (base, value, _settings, items) => ({
+      basicCodeDiscount: {
+        ...base,
+        customerGets: {
+          value: {
+            discountAmount: {
+              amount: value.toString(),
+            },
+          },
+          items,
+        },
+      },
+    }),
+    describe: (value) => `Fixed amount discount created (${value} off)`,
+  },
+  percentage: {
+    mutation: `
+      mutation discountCodeBasicCreate($basicCodeDiscount: DiscountCodeBasicInput!) {
+        discountCodeBasicCreate(basicCodeDiscount: $basicCodeDiscount) {
+          ${DISCOUNT_RESULT_FIELDS}
+        }
+      }
+    `,
+    responseKey: "discountCodeBasicCreate",
+    needsValue: true,
+    validateValue: validatePercentage,
+    buildVariables: (base, value, _settings, items) => ({
+      basicCodeDiscount: {
+        ...base,
+        customerGets: {
+          value: {
+            percentage: value / 100,
+          },
+          items,
+        },
+      },
+    }),
+    describe: (value) => `Percentage discount created (${value}% off)`,
+  },
+  free_shipping: {
+    mutation: `
+      mutation discountCodeFreeShippingCreate($freeShippingCodeDiscount: DiscountCodeFreeShippingInput!) {
+        discountCodeFreeShippingCreate(freeShippingCodeDiscount: $freeShippingCodeDiscount) {
+          ${DISCOUNT_RESULT_FIELDS}
+        }
+      }
+    `,
+    responseKey: "discountCodeFreeShippingCreate",
+    needsValue: false,
+    validateValue: () => null,
+    buildVariables: (base) => ({
+      freeShippingCodeDiscount: {
+        ...base,
+        destination: {
+          all: true,
+        },
+      },
+    }),
+    describe: () => "Free shipping discount created",
+  },
+  bxgy: {
+    mutation: `
+      mutation discountCodeBxgyCreate($bxgyCodeDiscount: DiscountCodeBxgyInput!) {
+        discountCodeBxgyCreate(bxgyCodeDiscount: $bxgyCodeDiscount) {
+          ${DISCOUNT_RESULT_FIELDS}
+        }
+      }
+    `,
+    responseKey: "discountCodeBxgyCreate",
+    needsValue: true,
+    validateValue: validatePercentage,
+    // Shopify doesn't take `all` for either side of a buy X get Y discount,
+    // so the settings always name items, and the backer buys and gets those
+    buildVariables: (base, value, settings, items) => ({
+      bxgyCodeDiscount: {
+        ...base,
+        customerBuys: {
+          value: {
+            quantity: String(settings.buyQuantity ?? 1),
+          },
+          items,
+        },
+        customerGets: {
+          value: {
+            discountOnQuantity: {
+              quantity: String(settings.getQuantity ?? 1),
+              effect: {
+                percentage: value / 100,
+              },
+            },
+          },
+          items,
+        },
+      },
+    }),
+    describe: (value) =>
+      value === 100
+        ? "Buy X get Y discount created (Y free)"
+        : `Buy X get Y discount created (${value}% off Y)`,
+  },
+};
+
+export function getDiscountType(type: DiscountType) {
+  return DISCOUNT_TYPES[type];
+}
+
+// Checks the settings posted from the mapping step. Returns an error message,
+// or null when they are usable. `headers` are the uploaded file's columns.
+export function validateDiscountSettings(
+  settings: DiscountSettings,
+  headers?: string[],
+) {
+  const definition = DISCOUNT_TYPES[settings?.type];
+  if (!definition) {
+    return "Unknown discount type";
+  }
+
+  if (definition.needsValue && settings.valueSource === "constant") {
+    const value = settings.constantValue;
+    if (value === undefined || isNaN(value)) {
+      return "Enter a discount value";
+    }
+
+    const valueError = definition.validateValue(value);
+    if (valueError) {
+      return valueError;
+    }
+  }
+
+  const restricted = hasItems(settings.items) || Boolean(settings.itemsColumn);
+  if (restricted && settings.type === "free_shipping") {
+    return "Free shipping discounts can't be limited to specific items";
+  }
+  if (!restricted && settings.type === "bxgy") {
+    return "Buy X get Y discounts need specific products, variants or collections";
+  }
+
+  if (
+    settings.items?.collectionIds.length &&
+    (settings.items.productIds.length || settings.items.variantIds.length)
+  ) {
+    return "A discount can apply to collections or to products, not both";
+  }
+
+  if (settings.amountRules) {
+    const rulesError = validateAmountRules(settings.amountRules);
+    if (rulesError) {
+      return rulesError;
+    }
+  }
+
+  if (settings.codeFormat) {
+    const formatError = validateCodeFormat(settings.codeFormat, headers);
+    if (formatError) {
+      return formatError;
+    }
+  }
+
+  if (settings.constraints) {
+    const constraintsError = validateDiscountConstraints(
+      settings.constraints,
+      settings.type,
+    );
+    if (constraintsError) {
+      return constraintsError;
+    }
+  }
+
+  if (settings.type === "bxgy") {
+    for (const quantity of [settings.buyQuantity, settings.getQuantity]) {
+      if (!quantity || quantity < 1 || !Number.isInteger(quantity)) {
+        return "Buy and get quantities must be whole numbers of at least 1";
+      }
+    }
+  }
+
+  return null;
+}
+
+export function hasItems(items?: DiscountItems) {
+  return Boolean(
+    items &&
+      (items.productIds.length ||
+        items.variantIds.length ||
+        items.collectionIds.length),
+  );
+}
+
+// The `items` input of a discount: everything, or the given collections, or
+// the given products and variants
+export function buildItemsInput(items?: DiscountItems) {
+  if (!items || !hasItems(items)) {
+    return { all: true };
+  }
+
+  if (items.collectionIds.length) {
+    return { collections: { add: items.collectionIds } };
+  }
+
+  return {
+    products: {
+      productsToAdd: items.productIds,
+      productVariantsToAdd: items.variantIds,
+    },
+  };
+}
+
+// Works out a row's discount value from its pledge (the already parsed price
+// column). The amount rules decide how a pledge becomes a value; a value
+// column, when mapped, is used in place of the pledge.
+export function resolveDiscountValue(
+  settings: DiscountSettings,
+  row: any,
+  pledge: number,
+): { value: number } | { error: string } {
+  const definition = DISCOUNT_TYPES[settings.type];
+  const rules = settings.amountRules ?? DEFAULT_AMOUNT_RULES;
+
+  // The minimum pledge applies whatever the value is based on
+  const threshold = applyAmountRules(
+    { formula: "pledge", minimumPledge: rules.minimumPledge },
+    pledge,
+  );
+  if ("error" in threshold) {
+    return threshold;
+  }
+
+  if (!definition.needsValue) {
+    return { value: 0 };
+  }
+
+  let value: number;
+  if (settings.valueSource === "constant") {
+    value = settings.constantValue ?? NaN;
+  } else {
+    let base = pledge;
+    if (settings.valueColumn) {
+      const parsed = parsePrice(
+        row[settings.valueColumn],
+        settings.priceFormat,
+      );
+      if (!parsed.ok) {
+        return { error: `Discount value: ${parsed.reason}` };
+      }
+      base = parsed.amount;
+    }
+
+    // The minimum was checked against the pledge above, not the value column
+    const applied = applyAmountRules(
+      { ...rules, minimumPledge: undefined },
+      base,
+    );
+    if ("error" in applied) {
+      return applied;
+    }
+    value = applied.value;
+  }
+
+  if (isNaN(value)) {
+    return { error: "Invalid discount value" };
+  }
+
+  const valueError = definition.validateValue(value);
+  return valueError ? { error: valueError } : { value };
+}
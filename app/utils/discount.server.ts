@@ -1,209 +1,521 @@
-export async function generateDiscountCodes(
-  graphql: any,
-  data: any[],
-  nameColumn: string,
-  priceColumn: string,
-  transformFunction: string,
-) {
-  const results: any[] = [];
-  let successCount = 0;
-  let errorCount = 0;
-
-  const DISCOUNT_CODE_BASIC_CREATE = `
-    mutation discountCodeBasicCreate($basicCodeDiscount: DiscountCodeBasicInput!) {
-      discountCodeBasicCreate(basicCodeDiscount: $basicCodeDiscount) {
-        codeDiscountNode {
-          id
-          codeDiscount {
-            ... on DiscountCodeBasic {
-              codes(first: 1) {
-                nodes {
-                  code
-                }
-              }
-            }
-          }
+import type { AdminClient } from "./admin-client.server";
+import type { CodeFormat } from "./code-template";
+import {
+  createCodeGenerator,
+  createPreviewCodeGenerator,
+  type CodeGenerator,
+} from "./code-generator.server";
+import {
+  createCustomerResolver,
+  type CustomerMatch,
+  type CustomerResolver,
+} from "./customers.server";
+import { buildConstraintInput, getUsageLimit } from "./discount-constraints";
+import {
+  createItemResolver,
+  resolveRowItems,
+  type ItemResolver,
+} from "./discount-items.server";
+import {
+  buildItemsInput,
+  getDiscountType,
+  resolveDiscountValue,
+  type DiscountItems,
+  type DiscountSettings,
+} from "./discount-types.server";
+import { currencyMismatch, parsePrice } from "./price";
+import { applyTransform, type TransformStep } from "./name-transform";
+import type { RunMapping } from "./runs.server";
+import { getShopCurrency } from "./shop.server";
+
+export interface DiscountResult {
+  row: number;
+  customer: string;
+  // "would_create" is a dry run's success: the row checks out but nothing
+  // was created
+  status: "success" | "error" | "would_create";
+  discountCode?: string;
+  discountId?: string;
+  customerId?: string;
+  // The backer's pledge and the discount value worked out from it
+  pledge?: number;
+  amount?: number;
+  message: string;
+  // Set when Shopify refused the code because a discount already uses it
+  codeTaken?: boolean;
+}
+
+// Everything that decides how a row becomes a discount. Stored with the run
+// so the worker (and retries) use exactly what the merchant chose.
+export interface GenerationConfig {
+  mapping: RunMapping;
+  transform: TransformStep[];
+  settings: DiscountSettings;
+}
+
+// Shopify refusals of a taken code retried with a fresh code
+const MAX_TAKEN_CODE_RETRIES = 3;
+
+// Lookups that turn CSV values into Shopify resources. Create one set per
+// run so their caches carry over from row to row. Dry run lookups only read:
+// they don't create customers or reserve codes.
+export interface RowLookups {
+  items: ItemResolver;
+  customers: CustomerResolver;
+  codes: CodeGenerator;
+  shopCurrency: () => Promise<string | null>;
+}
+
+export function createRowLookups(
+  client: AdminClient,
+  shop: string,
+  codeFormat?: CodeFormat,
+  dryRun = false,
+): RowLookups {
+  let shopCurrency: Promise<string | null> | undefined;
+
+  return {
+    items: createItemResolver(client),
+    customers: createCustomerResolver(client, { createMissing: !dryRun }),
+    codes: dryRun
+      ? createPreviewCodeGenerator(shop, codeFormat)
+      : createCodeGenerator(shop, codeFormat),
+    shopCurrency: () => (shopCurrency ??= getShopCurrency(client)),
+  };
+}
+
+export interface PreparedRow {
+  row: number;
+  customer: string;
+  pledge: number;
+  amount: number;
+  discountCode: string;
+  items?: DiscountItems;
+  customerId?: string;
+  // Only set in dry runs, for an email no customer has yet
+  newCustomer?: boolean;
+  // Something the merchant should check, such as a price in another currency
+  warning?: string;
+}
+
+// Creates the discount for a single CSV row. `rowNumber` is the 1-based
+// position of the row in the uploaded file and is echoed back in the result.
+export async function generateDiscountCode(
+  client: AdminClient,
+  lookups: RowLookups,
+  row: any,
+  rowNumber: number,
+  config: GenerationConfig,
+): Promise<DiscountResult> {
+  const prepared = await prepareDiscountRow(lookups, row, rowNumber, config);
+  if (!prepared.ok) {
+    return prepared.result;
+  }
+
+  return retryTakenCode(lookups, row, prepared.row, () =>
+    createDiscount(
+      client,
+      prepared.row,
+      `Kickstarter Backer - ${prepared.row.customer}`,
+      config.settings,
+    ),
+  );
+}
+
+// Codes the merchant made outside the app aren't reserved, so Shopify can
+// still reject one as taken. Calls `create` again with a fresh code for the
+// row a few times before giving up. `onNewCode` runs before each retry.
+export async function retryTakenCode(
+  lookups: RowLookups,
+  row: any,
+  prepared: PreparedRow,
+  create: () => Promise<DiscountResult>,
+  onNewCode: (code: string) => Promise<void> = async () => {},
+): Promise<DiscountResult> {
+  let result = await create();
+
+  for (
+    let retry = 0;
+    retry < MAX_TAKEN_CODE_RETRIES &&
+    result.status === "error" &&
+    result.codeTaken;
+    retry++
+  ) {
+    try {
+      prepared.discountCode = await lookups.codes.next(row, prepared.customer);
+    } catch {
+      return result;
+    }
+
+    await onNewCode(prepared.discountCode);
+    result = await create();
+  }
+
+  return result;
+}
+
+// Whether a Shopify userError says a discount already uses the code. Only
+// errors on the code field count; other "already" messages are unrelated.
+export function isCodeTakenError(error: {
+  field?: string[] | null;
+  message: string;
+}) {
+  return (
+    !!error.field?.includes("code") &&
+    /must be unique|has already been taken/i.test(error.message)
+  );
+}
+
+// Checks a CSV row the way generateDiscountCode would handle it, without
+// creating anything. Pass lookups created for a dry run.
+export async function dryRunDiscountCode(
+  client: AdminClient,
+  lookups: RowLookups,
+  row: any,
+  rowNumber: number,
+  config: GenerationConfig,
+): Promise<DiscountResult> {
+  const prepared = await prepareDiscountRow(lookups, row, rowNumber, config);
+  if (!prepared.ok) {
+    return prepared.result;
+  }
+
+  const { discountCode } = prepared.row;
+  let existing;
+  try {
+    existing = await findCodeDiscount(client, discountCode);
+  } catch (error: any) {
+    return {
+      row: rowNumber,
+      customer: prepared.row.customer,
+      status: "error",
+      message: `API Error: ${error.message}`,
+    };
+  }
+
+  if (existing) {
+    return {
+      row: rowNumber,
+      customer: prepared.row.customer,
+      status: "error",
+      message: `Code ${discountCode} is already used by the discount "${existing.title}"`,
+    };
+  }
+
+  const discountType = getDiscountType(config.settings.type);
+  const message = prepared.row.newCustomer
+    ? "Would create the discount and a new customer"
+    : "Would create the discount";
+
+  return {
+    row: rowNumber,
+    customer: prepared.row.customer,
+    status: "would_create",
+    discountCode,
+    customerId: prepared.row.customerId,
+    pledge: prepared.row.pledge,
+    amount: discountType.needsValue ? prepared.row.amount : undefined,
+    message: withWarning(message, prepared.row),
+  };
+}
+
+// Finds the backer's own customer account when the run limits codes to
+// customers by an email column. `customerId` is null in dry runs for an
+// email no customer has yet. New customers get the name as uploaded, not as
+// transformed for the code.
+async function matchRowCustomer(
+  lookups: RowLookups,
+  row: any,
+  mapping: RunMapping,
+  settings: DiscountSettings,
+): Promise<CustomerMatch | null> {
+  const { customerEmailColumn } = settings;
+  if (!customerEmailColumn) {
+    return null;
+  }
+
+  try {
+    return await lookups.customers.resolve(
+      String(row[customerEmailColumn] ?? ""),
+      String(row[mapping.nameColumn] ?? ""),
+    );
+  } catch (error: any) {
+    return { error: `API Error: ${error.message}` };
+  }
+}
+
+const CODE_DISCOUNT_BY_CODE = `
+  query codeDiscountNodeByCode($code: String!) {
+    codeDiscountNodeByCode(code: $code) {
+      id
+      codeDiscount {
+        ... on DiscountCodeBasic {
+          title
+        }
+        ... on DiscountCodeBxgy {
+          title
+        }
+        ... on DiscountCodeFreeShipping {
+          title
         }
-        userErrors {
-          field
-          message
+        ... on DiscountCodeApp {
+          title
         }
       }
     }
-  `;
+  }
+`;
+
+// The shop's discount with this code, or null when the code is free
+export async function findCodeDiscount(client: AdminClient, code: string) {
+  const response = await client.request(CODE_DISCOUNT_BY_CODE, { code });
+
+  if (response.errors?.length) {
+    throw new Error(response.errors.map((e: any) => e.message).join(", "));
+  }
 
-  for (let i = 0; i < data.length; i++) {
-    const row = data[i];
-    let customerName = row[nameColumn];
-    const priceValue = parseFloat(row[priceColumn].replace("£", ""));
+  const node = response.data?.codeDiscountNodeByCode;
+  return node
+    ? {
+        id: node.id as string,
+        title: (node.codeDiscount?.title as string | undefined) ?? node.id,
+      }
+    : null;
+}
 
-    console.log({ priceValue, customerName });
+// Validates a CSV row and works out the backer's name, discount value, code
+// and the items the discount applies to, without creating any discount.
+// `existingCode` is a code already reserved for the row by an earlier attempt.
+export async function prepareDiscountRow(
+  lookups: RowLookups,
+  row: any,
+  rowNumber: number,
+  { mapping, transform, settings }: GenerationConfig,
+  existingCode?: string,
+): Promise<
+  { ok: true; row: PreparedRow } | { ok: false; result: DiscountResult }
+> {
+  let customerName = row[mapping.nameColumn];
+  const price = parsePrice(row[mapping.priceColumn], settings.priceFormat);
 
-    if (!customerName || isNaN(priceValue)) {
-      results.push({
-        row: i + 1,
+  let rowError: string | null = null;
+  if (!customerName) {
+    rowError = "Missing name";
+  } else if (!price.ok) {
+    rowError = price.reason;
+  } else if (price.amount < 0) {
+    rowError = `Price is negative (${row[mapping.priceColumn]}), so the pledge looks refunded`;
+  }
+
+  if (rowError || !price.ok) {
+    return {
+      ok: false,
+      result: {
+        row: rowNumber,
         customer: customerName || "Unknown",
         status: "error",
-        message: "Invalid name or price",
-      });
-      errorCount++;
-      continue;
+        message: rowError ?? "Invalid price",
+      },
+    };
+  }
+
+  const resolved = resolveDiscountValue(settings, row, price.amount);
+  if ("error" in resolved) {
+    return {
+      ok: false,
+      result: {
+        row: rowNumber,
+        customer: customerName,
+        status: "error",
+        message: resolved.error,
+      },
+    };
+  }
+
+  let resolvedItems: Awaited<ReturnType<typeof resolveRowItems>>;
+  try {
+    resolvedItems = await resolveRowItems(lookups.items, row, settings);
+  } catch (error: any) {
+    resolvedItems = { error: `API Error: ${error.message}` };
+  }
+  if ("error" in resolvedItems) {
+    return {
+      ok: false,
+      result: {
+        row: rowNumber,
+        customer: customerName,
+        status: "error",
+        message: resolvedItems.error,
+      },
+    };
+  }
+
+  if (transform.length) {
+    let message: string | null = null;
+    try {
+      const transformed = applyTransform(transform, String(customerName));
+      if (transformed) {
+        customerName = transformed;
+      } else {
+        message = "The name transform produced an empty name";
+      }
+    } catch (error: any) {
+      message = `Transform error: ${error.message}`;
     }
 
-    // Apply transformation function if provided
-    if (transformFunction && transformFunction.trim()) {
-      try {
-        const transformFunc = new Function("name", transformFunction);
-        customerName = transformFunc(customerName);
-      } catch (error) {
-        results.push({
-          row: i + 1,
+    if (message) {
+      return {
+        ok: false,
+        result: {
+          row: rowNumber,
           customer: customerName,
           status: "error",
-          message: `Transform function error: ${error.message}`,
-        });
-        errorCount++;
-        continue;
-      }
+          message,
+        },
+      };
     }
+  }
 
-    // Generate unique code
-    const timestamp = Date.now();
-    const cleanName = customerName.toUpperCase().replace(/[^A-Z0-9]/g, "_");
-    const discountCode = `KICKSTARTER_${cleanName}_${timestamp}`.substring(
-      0,
-      50,
-    );
+  // Matched before the code is reserved, so rows that fail here don't use up
+  // sequence numbers
+  const customer = await matchRowCustomer(lookups, row, mapping, settings);
+  if (customer && "error" in customer) {
+    return {
+      ok: false,
+      result: {
+        row: rowNumber,
+        customer: customerName,
+        status: "error",
+        message: customer.error,
+      },
+    };
+  }
 
+  let discountCode = existingCode;
+  if (!discountCode) {
     try {
-      const variables = {
-        basicCodeDiscount: {
-          title: `Kickstarter Backer - ${customerName}`,
-          code: discountCode,
-          startsAt: new Date().toISOString(),
-          customerSelection: {
-            all: true,
-          },
-          customerGets: {
-            value: {
-              discountAmount: {
-                amount: priceValue.toString(),
-              },
-            },
-            items: {
-              all: true,
-            },
-          },
-          appliesOncePerCustomer: true,
-          usageLimit: 1,
+      discountCode = await lookups.codes.next(row, customerName);
+    } catch (error: any) {
+      return {
+        ok: false,
+        result: {
+          row: rowNumber,
+          customer: customerName,
+          status: "error",
+          message: `Code format error: ${error.message}`,
         },
       };
+    }
+  }
 
-      const response = await graphql(DISCOUNT_CODE_BASIC_CREATE, {
-        variables,
-      });
-
-      console.log("Raw response:", response);
+  return {
+    ok: true,
+    row: {
+      row: rowNumber,
+      customer: customerName,
+      pledge: price.amount,
+      amount: resolved.value,
+      discountCode,
+      items: resolvedItems.items,
+      customerId: customer?.customerId ?? undefined,
+      newCustomer: customer ? customer.customerId === null : undefined,
+      warning:
+        currencyMismatch(price.currencies, await lookups.shopCurrency()) ??
+        undefined,
+    },
+  };
+}
 
-      // Parse the response body
-      let responseData;
-      if (response && typeof response.json === "function") {
-        // If it's a Response object, parse the JSON
-        responseData = await response.json();
-      } else if (response && response.data) {
-        // If it's already parsed (some Shopify clients do this)
-        responseData = response;
-      } else {
-        // If it's something else, try to extract the body
-        const responseText = await response.text();
-        console.log("Response text:", responseText);
-        try {
-          responseData = JSON.parse(responseText);
-        } catch (parseError) {
-          console.error("Failed to parse response:", parseError);
-          results.push({
-            row: i + 1,
-            customer: customerName,
-            status: "error",
-            message: `Invalid response format: ${responseText.substring(0, 100)}`,
-          });
-          errorCount++;
-          continue;
-        }
-      }
+// Creates a code discount of the configured type whose first (and possibly
+// only) code is the prepared row's code. Shopify counts `usageLimit` across
+// every code of a discount, so shared discounts pass null.
+export async function createDiscount(
+  client: AdminClient,
+  prepared: PreparedRow,
+  title: string,
+  settings: DiscountSettings,
+  usageLimit: number | null = getUsageLimit(settings.constraints),
+): Promise<DiscountResult> {
+  const { row: rowNumber, customer: customerName, discountCode } = prepared;
+  const discountType = getDiscountType(settings.type);
+  const value = prepared.amount;
 
-      console.log(
-        "Parsed response data:",
-        JSON.stringify(responseData, null, 2),
-      );
+  try {
+    const variables = discountType.buildVariables(
+      {
+        title,
+        code: discountCode,
+        ...buildConstraintInput(settings.constraints, new Date()),
+        customerSelection: prepared.customerId
+          ? { customers: { add: [prepared.customerId] } }
+          : { all: true },
+        usageLimit,
+      },
+      value,
+      settings,
+      buildItemsInput(prepared.items),
+    );
 
-      // Check for GraphQL errors
-      if (responseData.errors) {
-        results.push({
-          row: i + 1,
-          customer: customerName,
-          status: "error",
-          message: `GraphQL errors: ${responseData.errors.map((e: any) => e.message).join(", ")}`,
-        });
-        errorCount++;
-        continue;
-      }
+    const responseData = await client.request(discountType.mutation, variables);
 
-      const discountData = responseData.data?.discountCodeBasicCreate;
+    // Check for GraphQL errors
+    if (responseData.errors) {
+      return {
+        row: rowNumber,
+        customer: customerName,
+        status: "error",
+        message: `GraphQL errors: ${responseData.errors.map((e: any) => e.message).join(", ")}`,
+      };
+    }
 
-      if (!discountData) {
-        results.push({
-          row: i + 1,
-          customer: customerName,
-          status: "error",
-          message: "No discountCodeBasicCreate data in response",
-        });
-        errorCount++;
-        continue;
-      }
+    const discountData = responseData.data?.[discountType.responseKey];
 
-      if (discountData.userErrors && discountData.userErrors.length > 0) {
-        const errors = discountData.userErrors;
-        results.push({
-          row: i + 1,
-          customer: customerName,
-          status: "error",
-          message: errors
-            .map((e: any) => `${e.field || "unknown"}: ${e.message}`)
-            .join(", "),
-        });
-        errorCount++;
-      } else {
-        results.push({
-          row: i + 1,
-          customer: customerName,
-          discountCode: discountCode,
-          amount: priceValue,
-          status: "success",
-          message: "Discount code created successfully",
-        });
-        successCount++;
-      }
+    if (!discountData) {
+      return {
+        row: rowNumber,
+        customer: customerName,
+        status: "error",
+        message: `No ${discountType.responseKey} data in response`,
+      };
+    }
 
-      // Add delay to avoid rate limiting
-      await new Promise((resolve) => setTimeout(resolve, 600));
-    } catch (error) {
-      results.push({
-        row: i + 1,
+    if (discountData.userErrors && discountData.userErrors.length > 0) {
+      const errors = discountData.userErrors;
+      return {
+        row: rowNumber,
         customer: customerName,
         status: "error",
-        message: `API Error: ${error.message}`,
-      });
-      errorCount++;
+        message: errors
+          .map((e: any) => `${e.field || "unknown"}: ${e.message}`)
+          .join(", "),
+        codeTaken: errors.some(isCodeTakenError),
+      };
     }
+
+    return {
+      row: rowNumber,
+      customer: customerName,
+      discountCode: discountCode,
+      discountId: discountData.codeDiscountNode?.id,
+      customerId: prepared.customerId,
+      pledge: prepared.pledge,
+      amount: discountType.needsValue ? value : undefined,
+      status: "success",
+      message: withWarning(discountType.describe(value), prepared),
+    };
+  } catch (error) {
+    return {
+      row: rowNumber,
+      customer: customerName,
+      status: "error",
+      message: `API Error: ${error instanceof Error ? error.message : String(error)}`,
+    };
   }
+}
 
-  return {
-    results,
-    summary: {
-      total: data.length,
-      successful: successCount,
-      errors: errorCount,
-    },
-  };
+// Adds a prepared row's warning to its success message
+export function withWarning(message: string, prepared: PreparedRow) {
+  return prepared.warning
+    ? `${message} (warning: ${prepared.warning})`
+    : message;
 }
@@ -0,0 +1,112 @@
+// Export profiles for a run's results. Shared by the export options on the
+// run pages and the export route, so it must not import anything
+// server-only.
+
+export type ExportProfile = "full" | "summary" | "successful" | "errors";
+
+export const EXPORT_PROFILES: { label: string; value: ExportProfile }[] = [
+  { label: "Full: every row with its code", value: "full" },
+  { label: "Summary: one line per backer", value: "summary" },
+  { label: "Successful codes only", value: "successful" },
+  { label: "Errors only", value: "errors" },
+];
+
+export interface ExportColumn {
+  // "column:<header>" for a column of the uploaded file, otherwise a result
+  // field such as "discountCode"
+  key: string;
+  header: string;
+}
+
+// Columns to write, in order, with the header to give each one. Without it a
+// profile writes all its columns under their default headers.
+export interface ExportOptions {
+  columns?: ExportColumn[];
+}
+
+const RESULT_COLUMNS: Record<ExportProfile, ExportColumn[]> = {
+  full: [
+    { key: "discountCode", header: "Discount_Code" },
+    { key: "pledge", header: "Pledge_Amount" },
+    { key: "amount", header: "Discount_Amount" },
+    { key: "status", header: "Generation_Status" },
+    { key: "message", header: "Generation_Message" },
+    { key: "generatedAt", header: "Generated_At" },
+  ],
+  summary: [
+    { key: "row", header: "Row" },
+    { key: "customer", header: "Customer_Name" },
+    { key: "discountCode", header: "Discount_Code" },
+    { key: "pledge", header: "Pledge_Amount" },
+    { key: "amount", header: "Discount_Amount" },
+    { key: "status", header: "Status" },
+    { key: "message", header: "Message" },
+    { key: "generatedAt", header: "Generated_At" },
+  ],
+  successful: [
+    { key: "discountCode", header: "Discount_Code" },
+    { key: "pledge", header: "Pledge_Amount" },
+    { key: "amount", header: "Discount_Amount" },
+  ],
+  // The file's own columns come first so it can be fixed and uploaded again
+  errors: [
+    { key: "row", header: "Row" },
+    { key: "message", header: "Error_Message" },
+  ],
+};
+
+// Layouts the crowdfunding platforms read back into their surveys: the
+// column that identifies each backer, exactly as it was uploaded, and the code
+export interface SurveyTemplate {
+  id: string;
+  label: string;
+  // Upload headers the platform identifies backers by, most preferred first
+  identifierHeaders: string[];
+  codeHeader: string;
+}
+
+export const SURVEY_TEMPLATES: SurveyTemplate[] = [
+  {
+    id: "backerkit",
+    label: "BackerKit survey import",
+    identifierHeaders: ["Email", "Backer Number", "Backer UID"],
+    codeHeader: "Discount Code",
+  },
+  {
+    id: "kickstarter",
+    label: "Kickstarter survey import",
+    identifierHeaders: ["Backer Number", "Backer UID", "Email"],
+    codeHeader: "Discount Code",
+  },
+];
+
+// Every column a profile can write, given the uploaded file's headers
+export function getExportColumns(
+  profile: ExportProfile,
+  originalHeaders: string[],
+): ExportColumn[] {
+  const original =
+    profile === "summary"
+      ? []
+      : originalHeaders.map((header) => ({ key: `column:${header}`, header }));
+
+  return [...original, ...RESULT_COLUMNS[profile]];
+}
+
+// Headers of the uploaded file in the file's order, followed by any other
+// keys its rows have (cells past the last header). Stored rows can't give the
+// order themselves: Postgres reorders the keys of JSONB objects.
+export function getOriginalHeaders(
+  headers: string[],
+  originalData: Record<string, unknown>[],
+) {
+  const ordered = new Set(headers);
+  for (const row of originalData) {
+    Object.keys(row ?? {}).forEach((header) => ordered.add(header));
+  }
+  return [...ordered];
+}
+
+export function isExportProfile(value: unknown): value is ExportProfile {
+  return EXPORT_PROFILES.some((profile) => profile.value === value);
+}
@@ -0,0 +1,219 @@
+import db from "../db.server";
+import type { DiscountResult } from "./discount.server";
+import type { RunMapping } from "./runs.server";
+
+export interface RowContext {
+  shop: string;
+  // Backers are only recognised within the same campaign
+  campaign: string;
+  runId: string;
+  row: number;
+  customer: string;
+}
+
+// The stable identity of a backer across uploads, compared case-insensitively.
+// Only an email or platform backer ID column identifies a backer: two backers
+// can share a name, so without one there is no key and no deduplication.
+export function getBackerKey(rowData: any, mapping: RunMapping) {
+  if (!mapping.backerKeyColumn) {
+    return null;
+  }
+
+  const value = String(rowData[mapping.backerKeyColumn] ?? "")
+    .trim()
+    .toLowerCase();
+
+  return value || null;
+}
+
+// Runs `create` at most once per backer per campaign. A repeat run (double submit,
+// browser retry, re-upload) gets the code that was already issued back
+// instead of creating a second discount.
+export async function withBackerIdempotency(
+  backerKey: string,
+  context: RowContext,
+  create: () => Promise<DiscountResult>,
+): Promise<DiscountResult> {
+  const claimed = await claimBacker(backerKey, context);
+  if (claimed) {
+    return claimed;
+  }
+
+  let result: DiscountResult;
+  try {
+    result = await create();
+  } catch (error) {
+    await releaseBackerKey(backerKey, context);
+    throw error;
+  }
+
+  await settleBacker(backerKey, context, result);
+  return result;
+}
+
+// Reserves the backer for this row. Returns null when the caller may go ahead
+// and create a code, or the result to record when the backer already has one
+// (or another run is creating it right now).
+export async function claimBacker(
+  backerKey: string,
+  context: RowContext,
+): Promise<DiscountResult | null> {
+  const existing = await reserveBackerKey(backerKey, context);
+
+  if (existing?.status === "issued") {
+    return {
+      row: context.row,
+      customer: context.customer,
+      status: "success",
+      discountCode: existing.discountCode ?? undefined,
+      discountId: existing.discountId ?? undefined,
+      customerId: existing.customerId ?? undefined,
+      pledge: existing.pledge ?? undefined,
+      amount: existing.amount ?? undefined,
+      message:
+        "Existing discount code returned (already issued to this backer)",
+    };
+  }
+
+  if (existing) {
+    return {
+      row: context.row,
+      customer: context.customer,
+      status: "error",
+      message: "Another run is creating a discount code for this backer",
+    };
+  }
+
+  return null;
+}
+
+// The code already issued to a backer, for dry runs. Unlike claimBacker it
+// never reserves anything.
+export async function findIssuedBackerCode(
+  backerKey: string,
+  shop: string,
+  campaign: string,
+) {
+  const existing = await db.backerCode.findUnique({
+    where: { shop_campaign_backerKey: { shop, campaign, backerKey } },
+  });
+
+  return existing?.status === "issued" ? existing : null;
+}
+
+// Records the outcome for a backer claimed with claimBacker
+export async function settleBacker(
+  backerKey: string,
+  context: RowContext,
+  result: DiscountResult,
+) {
+  if (result.status !== "success") {
+    // Failed rows must stay retryable
+    await releaseBackerKey(backerKey, context);
+    return;
+  }
+
+  const issued = {
+    status: "issued",
+    discountCode: result.discountCode ?? null,
+    discountId: result.discountId ?? null,
+    customerId: result.customerId ?? null,
+    pledge: result.pledge ?? null,
+    amount: result.amount ?? null,
+  };
+
+  await db.backerCode.upsert({
+    where: {
+      shop_campaign_backerKey: {
+        shop: context.shop,
+        campaign: context.campaign,
+        backerKey,
+      },
+    },
+    update: issued,
+    create: {
+      ...issued,
+      shop: context.shop,
+      campaign: context.campaign,
+      backerKey,
+      runId: context.runId,
+      row: context.row,
+    },
+  });
+}
+
+// Returns null when the key was reserved for this row, otherwise the record
+// that already holds it
+async function reserveBackerKey(backerKey: string, context: RowContext) {
+  try {
+    await db.backerCode.create({
+      data: {
+        shop: context.shop,
+        campaign: context.campaign,
+        backerKey,
+        status: "reserved",
+        runId: context.runId,
+        row: context.row,
+      },
+    });
+    return null;
+  } catch (error: any) {
+    if (error?.code !== "P2002") {
+      throw error;
+    }
+  }
+
+  const where = {
+    shop_campaign_backerKey: {
+      shop: context.shop,
+      campaign: context.campaign,
+      backerKey,
+    },
+  };
+  const existing = await db.backerCode.findUnique({ where });
+
+  if (existing?.status !== "reserved") {
+    return existing;
+  }
+
+  // A reservation left behind by this same row means the worker died mid-row
+  // and the run was picked up again
+  if (existing.runId === context.runId && existing.row === context.row) {
+    return null;
+  }
+
+  // A run that is no longer being processed will never settle its
+  // reservation, so this row takes it over
+  const owner = await db.generationRun.findUnique({
+    where: { id: existing.runId },
+    select: { status: true },
+  });
+  if (owner?.status === "queued" || owner?.status === "running") {
+    return existing;
+  }
+
+  const { count } = await db.backerCode.updateMany({
+    where: { id: existing.id, status: "reserved", runId: existing.runId },
+    data: { runId: context.runId, row: context.row },
+  });
+  return count === 1 ? null : db.backerCode.findUnique({ where });
+}
+
+async function releaseBackerKey(backerKey: string, context: RowContext) {
+  await db.backerCode.deleteMany({
+    where: {
+      shop: context.shop,
+      campaign: context.campaign,
+      backerKey,
+      status: "reserved",
+    },
+  });
+}
+
+// Frees the backers a run still holds, so a run that gave up doesn't block
+// them for later runs
+export async function releaseRunReservations(runId: string) {
+  await db.backerCode.deleteMany({
+    where: { runId, status: "reserved" },
+  });
+}
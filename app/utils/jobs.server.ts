@@ -0,0 +1,427 @@
+import db from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { createAdminClient, type AdminClient } from "./admin-client.server";
+import {
+  createRowLookups,
+  dryRunDiscountCode,
+  generateDiscountCode,
+  type DiscountResult,
+  type GenerationConfig,
+} from "./discount.server";
+import type { DiscountSettings } from "./discount-types.server";
+import type { TransformStep } from "./name-transform";
+import { generateGroupedDiscounts } from "./bulk-discount.server";
+import {
+  createCustomerSync,
+  type CustomerSyncOptions,
+  type CustomerSyncResult,
+} from "./customer-sync.server";
+import {
+  findIssuedBackerCode,
+  getBackerKey,
+  releaseRunReservations,
+  withBackerIdempotency,
+} from "./idempotency.server";
+import { refreshNextRunUsage, requestUsageRefresh } from "./redemptions.server";
+import {
+  createGenerationRun,
+  getRunTransform,
+  refreshRunCounts,
+  requestCustomerSync,
+  requeueFailedRows,
+  saveRowResult,
+  saveSyncResult,
+  type RunConfig,
+  type RunMapping,
+  type RunMode,
+} from "./runs.server";
+
+// How long the worker sleeps when the queue is empty
+const POLL_INTERVAL_MS = 2000;
+// A "running" run whose lock hasn't been refreshed for this long belongs to a
+// worker that died (deploy, crash, restart) and may be claimed again
+const STALE_LOCK_MS = 2 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 25;
+
+declare global {
+  var jobWorkerStarted: boolean | undefined;
+  var jobWorkerWake: (() => void) | undefined;
+}
+
+interface ClaimedRun {
+  id: string;
+  shop: string;
+  campaign: string;
+  mapping: RunMapping;
+  transform: string | null;
+  transformSteps: TransformStep[];
+  mode: RunMode;
+  dryRun: boolean;
+  settings: DiscountSettings;
+  customerSync: CustomerSyncOptions | null;
+  attempts: number;
+  // Kept from the run's last failure when it is queued again to sync
+  lastError: string | null;
+}
+
+export async function enqueueGenerationRun(
+  shop: string,
+  config: RunConfig,
+  rows: { row: number; data: any }[],
+) {
+  const runId = await createGenerationRun(shop, config, rows);
+
+  startJobWorker();
+  global.jobWorkerWake?.();
+
+  return runId;
+}
+
+export async function retryFailedRows(shop: string, runId: string) {
+  const count = await requeueFailedRows(shop, runId);
+
+  startJobWorker();
+  global.jobWorkerWake?.();
+
+  return count;
+}
+
+export async function syncRunCustomers(
+  shop: string,
+  runId: string,
+  options: CustomerSyncOptions,
+) {
+  const count = await requestCustomerSync(shop, runId, options);
+
+  startJobWorker();
+  global.jobWorkerWake?.();
+
+  return count;
+}
+
+export async function refreshRunUsageSoon(shop: string, runId: string) {
+  await requestUsageRefresh(shop, runId);
+
+  startJobWorker();
+  global.jobWorkerWake?.();
+}
+
+// Starts the in-process worker loop once per server process. Queued and
+// abandoned runs live in Postgres, so a restarted server resumes them here.
+export function startJobWorker() {
+  if (global.jobWorkerStarted) {
+    return;
+  }
+  global.jobWorkerStarted = true;
+
+  void runWorker();
+}
+
+async function runWorker() {
+  console.log("Generation job worker started");
+
+  while (true) {
+    try {
+      const run = await claimNextRun();
+      if (run) {
+        await processRun(run);
+        continue;
+      }
+
+      // Code usage is only checked while no run is waiting
+      if (await refreshNextRunUsage(hasQueuedRun)) {
+        continue;
+      }
+    } catch (error) {
+      console.error("Generation job worker error:", error);
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, POLL_INTERVAL_MS);
+      global.jobWorkerWake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    global.jobWorkerWake = undefined;
+  }
+}
+
+// Whether a generation run is waiting for the worker
+async function hasQueuedRun() {
+  const queued = await db.generationRun.count({ where: { status: "queued" } });
+  return queued > 0;
+}
+
+// Atomically takes the oldest queued (or abandoned) run. SKIP LOCKED lets
+// several server instances share the queue without claiming the same run.
+async function claimNextRun(): Promise<ClaimedRun | null> {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+
+  const claimed: ClaimedRun[] = await db.$queryRaw`
+    UPDATE "GenerationRun"
+    SET "status" = 'running',
+        "lockedAt" = NOW(),
+        "startedAt" = NOW(),
+        "attempts" = "attempts" + 1
+    WHERE "id" = (
+      SELECT "id" FROM "GenerationRun"
+      WHERE "status" = 'queued'
+         OR ("status" = 'running' AND "lockedAt" < ${staleBefore})
+      ORDER BY "createdAt"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "shop", "campaign", "mapping", "transform",
+              "transformSteps", "mode", "dryRun", "settings", "customerSync",
+              "attempts", "lastError"
+  `;
+
+  return claimed[0] ?? null;
+}
+
+async function processRun(run: ClaimedRun) {
+  console.log(`Processing generation run ${run.id} for ${run.shop}`);
+
+  if (run.attempts > MAX_ATTEMPTS) {
+    await finishRun(run.id, "failed", "Gave up after too many attempts");
+    return;
+  }
+
+  // One client per run so its view of the shop's rate limit bucket carries
+  // over from row to row
+  let client: AdminClient;
+  try {
+    const { admin } = await unauthenticated.admin(run.shop);
+    client = createAdminClient(admin.graphql);
+  } catch (error) {
+    await finishRun(run.id, "failed", `Could not load shop session: ${error}`);
+    return;
+  }
+
+  const transform = getRunTransform(run);
+  if ("error" in transform) {
+    await finishRun(
+      run.id,
+      "failed",
+      `The run's JavaScript name transform can't be converted to steps (${transform.error}). Start a new run with transform steps.`,
+    );
+    return;
+  }
+
+  const config: GenerationConfig = {
+    mapping: run.mapping,
+    transform: transform.steps,
+    settings: run.settings,
+  };
+
+  const lookups = createRowLookups(
+    client,
+    run.shop,
+    run.settings.codeFormat,
+    run.dryRun,
+  );
+
+  const heartbeat = async () => {
+    await db.generationRun.update({
+      where: { id: run.id },
+      data: { lockedAt: new Date() },
+    });
+  };
+
+  if (run.dryRun) {
+    // Every row is checked on its own, whatever the mode: grouping only
+    // changes how the discounts would be created
+    await processPendingRows(run, heartbeat, async (code) => {
+      const backerKey = getBackerKey(code.rowData, run.mapping);
+      const issued = backerKey
+        ? await findIssuedBackerCode(backerKey, run.shop, run.campaign)
+        : null;
+
+      if (issued) {
+        return {
+          row: code.row,
+          customer: code.customer,
+          status: "would_create",
+          discountCode: issued.discountCode ?? undefined,
+          customerId: issued.customerId ?? undefined,
+          pledge: issued.pledge ?? undefined,
+          amount: issued.amount ?? undefined,
+          message: "Would return the code already issued to this backer",
+        };
+      }
+
+      return dryRunDiscountCode(
+        client,
+        lookups,
+        code.rowData,
+        code.row,
+        config,
+      );
+    });
+
+    await finishRun(run.id, "completed");
+    return;
+  }
+
+  const generating = await db.generatedCode.count({
+    where: { runId: run.id, status: "pending" },
+  });
+
+  if (run.mode === "grouped") {
+    // Grouping needs every remaining row at once
+    const pending = await db.generatedCode.findMany({
+      where: { runId: run.id, status: "pending" },
+      orderBy: { row: "asc" },
+    });
+
+    await generateGroupedDiscounts(client, lookups, run, config, pending, {
+      saveResult: async (result) => {
+        await saveRowResult(run.id, result);
+        await heartbeat();
+      },
+      heartbeat,
+    });
+  } else {
+    await processPendingRows(run, heartbeat, (code) => {
+      const create = () =>
+        generateDiscountCode(client, lookups, code.rowData, code.row, config);
+      const backerKey = getBackerKey(code.rowData, run.mapping);
+
+      return backerKey
+        ? withBackerIdempotency(
+            backerKey,
+            {
+              shop: run.shop,
+              campaign: run.campaign,
+              runId: run.id,
+              row: code.row,
+              customer: code.customer,
+            },
+            create,
+          )
+        : create();
+    });
+  }
+
+  // After generation, so rows a retry gives a code are synced as well
+  await syncPendingCustomers(run, client, heartbeat);
+
+  // A failed run queued only to sync its customers stays failed
+  if (!generating && run.lastError) {
+    await finishRun(run.id, "failed", run.lastError);
+  } else {
+    await finishRun(run.id, "completed");
+  }
+}
+
+// Works through a run's pending rows in batches, one row at a time
+async function processPendingRows(
+  run: ClaimedRun,
+  heartbeat: () => Promise<void>,
+  processRow: (code: any) => Promise<DiscountResult>,
+) {
+  while (true) {
+    const pending = await db.generatedCode.findMany({
+      where: { runId: run.id, status: "pending" },
+      orderBy: { row: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    if (!pending.length) {
+      break;
+    }
+
+    for (const code of pending) {
+      let result: DiscountResult;
+      try {
+        result = await processRow(code);
+      } catch (error: any) {
+        // A malformed row must not stall the whole run
+        result = {
+          row: code.row,
+          customer: code.customer,
+          status: "error",
+          message: `Unexpected error: ${error.message}`,
+        };
+      }
+
+      await saveRowResult(run.id, result);
+      await heartbeat();
+    }
+
+    await refreshRunCounts(run.id);
+  }
+}
+
+// Writes codes to customers for a run that asked for it. Rows that got their
+// code after the sync was requested have no sync status yet and are included.
+async function syncPendingCustomers(
+  run: ClaimedRun,
+  client: AdminClient,
+  heartbeat: () => Promise<void>,
+) {
+  if (!run.customerSync) {
+    return;
+  }
+
+  const sync = createCustomerSync(client, run.customerSync, [
+    run.settings.customerEmailColumn,
+    run.mapping.emailColumn,
+    run.mapping.backerKeyColumn,
+  ]);
+
+  while (true) {
+    const pending = await db.generatedCode.findMany({
+      where: {
+        runId: run.id,
+        status: "success",
+        discountCode: { not: null },
+        OR: [{ syncStatus: null }, { syncStatus: "pending" }],
+      },
+      orderBy: { row: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    if (!pending.length) {
+      break;
+    }
+
+    for (const code of pending) {
+      let result: CustomerSyncResult;
+      try {
+        result = await sync.syncRow(code);
+      } catch (error: any) {
+        result = {
+          status: "error",
+          message: `Unexpected error: ${error.message}`,
+        };
+      }
+
+      await saveSyncResult(run.id, code.row, result);
+      await heartbeat();
+    }
+  }
+}
+
+async function finishRun(
+  runId: string,
+  status: "completed" | "failed",
+  lastError?: string,
+) {
+  if (status === "failed") {
+    await releaseRunReservations(runId);
+  }
+
+  await refreshRunCounts(runId);
+  await db.generationRun.update({
+    where: { id: runId },
+    data: {
+      status,
+      lastError: lastError ?? null,
+      lockedAt: null,
+      finishedAt: new Date(),
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import db from "../db.server";
+import {
+  MAPPING_FIELDS,
+  type ColumnMapping,
+  type SavedMappingPreset,
+} from "./mapping-presets";
+
+const MAX_PRESET_NAME_LENGTH = 100;
+
+export async function listMappingPresets(
+  shop: string,
+): Promise<SavedMappingPreset[]> {
+  const presets = await db.mappingPreset.findMany({
+    where: { shop },
+    orderBy: { name: "asc" },
+  });
+
+  return presets.map((preset: any) => ({
+    id: preset.id,
+    name: preset.name,
+    mapping: preset.mapping as ColumnMapping,
+    headers: preset.headers as string[],
+  }));
+}
+
+// Returns an error message, or null when the preset can be saved
+export function validateMappingPreset(name: string, mapping: ColumnMapping) {
+  if (!name.trim()) {
+    return "Give the preset a name";
+  }
+  if (name.trim().length > MAX_PRESET_NAME_LENGTH) {
+    return `Preset names can be at most ${MAX_PRESET_NAME_LENGTH} characters`;
+  }
+  if (!MAPPING_FIELDS.some((field) => mapping[field])) {
+    return "Map at least one column before saving a preset";
+  }
+  return null;
+}
+
+// Saving under an existing name replaces that preset
+export async function saveMappingPreset(
+  shop: string,
+  name: string,
+  mapping: ColumnMapping,
+  headers: string[],
+): Promise<SavedMappingPreset> {
+  const columns: ColumnMapping = {};
+  for (const field of MAPPING_FIELDS) {
+    if (mapping[field]) {
+      columns[field] = mapping[field];
+    }
+  }
+
+  const preset = await db.mappingPreset.upsert({
+    where: { shop_name: { shop, name: name.trim() } },
+    create: { shop, name: name.trim(), mapping: columns, headers },
+    update: { mapping: columns, headers },
+  });
+
+  return {
+    id: preset.id,
+    name: preset.name,
+    mapping: columns,
+    headers,
+  };
+}
+
+export async function deleteMappingPreset(shop: string, presetId: string) {
+  await db.mappingPreset.deleteMany({ where: { id: presetId, shop } });
+}
@@ -0,0 +1,168 @@
+// Column mapping presets. Built-in presets recognise the backer reports of
+// the big crowdfunding platforms by their headers; merchants can also save
+// their own per shop. Shared by the mapping step and the server, so it must
+// not import anything server-only.
+
+export interface ColumnMapping {
+  nameColumn?: string;
+  emailColumn?: string;
+  priceColumn?: string;
+  tierColumn?: string;
+  backerKeyColumn?: string;
+}
+
+export type MappingField = keyof ColumnMapping;
+
+export interface PlatformPreset {
+  id: string;
+  name: string;
+  // Headers only this platform's export has. All of them must be present.
+  signature: string[];
+  // Headers each field may be called, most likely first
+  columns: Record<MappingField, string[]>;
+}
+
+// A preset saved by the merchant, with the headers of the file it was saved
+// from so the same export is recognised next time
+export interface SavedMappingPreset {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  headers: string[];
+}
+
+export const PLATFORM_PRESETS: PlatformPreset[] = [
+  {
+    id: "kickstarter",
+    name: "Kickstarter",
+    signature: ["Backer UID", "Reward Title"],
+    columns: {
+      nameColumn: ["Backer Name", "Shipping Name"],
+      emailColumn: ["Email"],
+      priceColumn: ["Pledge Amount"],
+      tierColumn: ["Reward Title"],
+      backerKeyColumn: ["Backer Number", "Backer UID"],
+    },
+  },
+  {
+    id: "backerkit",
+    name: "BackerKit",
+    signature: ["Backer Number", "Pledge Level"],
+    columns: {
+      nameColumn: ["Name", "Backer Name", "Shipping Name"],
+      emailColumn: ["Email"],
+      priceColumn: ["Pledge Amount", "Amount Paid", "Total Paid"],
+      tierColumn: ["Pledge Level"],
+      backerKeyColumn: ["Backer Number", "Backer UID"],
+    },
+  },
+  {
+    id: "indiegogo",
+    name: "Indiegogo",
+    signature: ["Pledge ID", "Perk ID"],
+    columns: {
+      nameColumn: ["Name", "Shipping Name"],
+      emailColumn: ["Email"],
+      priceColumn: ["Pledge Amount", "Contribution Amount", "Amount"],
+      tierColumn: ["Perk Name", "Perk"],
+      backerKeyColumn: ["Pledge ID"],
+    },
+  },
+  {
+    id: "gamefound",
+    name: "Gamefound",
+    signature: ["Order ID", "Backer Email"],
+    columns: {
+      nameColumn: ["Backer Name", "Name", "Shipping Name"],
+      emailColumn: ["Backer Email", "Email"],
+      priceColumn: ["Pledge Value", "Order Total", "Total"],
+      tierColumn: ["Reward Name", "Reward", "Pledge Name"],
+      backerKeyColumn: ["Backer ID", "Order ID"],
+    },
+  },
+];
+
+export const MAPPING_FIELDS: MappingField[] = [
+  "nameColumn",
+  "emailColumn",
+  "priceColumn",
+  "tierColumn",
+  "backerKeyColumn",
+];
+
+// The platform whose export the headers look like, with its columns matched
+// to the file's own header names. When several match, the one with the most
+// specific signature wins.
+export function detectPlatformPreset(headers: string[]) {
+  const present = new Set(headers.map(normalizeHeader));
+
+  let best: PlatformPreset | null = null;
+  for (const preset of PLATFORM_PRESETS) {
+    const matches = preset.signature.every((header) =>
+      present.has(normalizeHeader(header)),
+    );
+    if (matches && preset.signature.length > (best?.signature.length ?? 0)) {
+      best = preset;
+    }
+  }
+
+  return best
+    ? { preset: best, mapping: applyPlatformPreset(best, headers) }
+    : null;
+}
+
+export function applyPlatformPreset(
+  preset: PlatformPreset,
+  headers: string[],
+): ColumnMapping {
+  const byName = new Map(
+    headers.map((header) => [normalizeHeader(header), header]),
+  );
+
+  const mapping: ColumnMapping = {};
+  for (const field of MAPPING_FIELDS) {
+    const header = preset.columns[field]
+      .map((candidate) => byName.get(normalizeHeader(candidate)))
+      .find(Boolean);
+    if (header) {
+      mapping[field] = header;
+    }
+  }
+  return mapping;
+}
+
+// A saved preset's mapping, without columns the file doesn't have
+export function applySavedPreset(
+  preset: SavedMappingPreset,
+  headers: string[],
+): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of MAPPING_FIELDS) {
+    const header = preset.mapping[field];
+    if (header && headers.includes(header)) {
+      mapping[field] = header;
+    }
+  }
+  return mapping;
+}
+
+// The saved preset made from a file with exactly these headers
+export function findSavedPreset(
+  presets: SavedMappingPreset[],
+  headers: string[],
+) {
+  const key = headerKey(headers);
+  return presets.find((preset) => headerKey(preset.headers) === key) ?? null;
+}
+
+function headerKey(headers: string[]) {
+  return headers.map(normalizeHeader).sort().join("\n");
+}
+
+// Platforms change capitalisation and punctuation between export versions
+function normalizeHeader(header: string) {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
@@ -0,0 +1,348 @@
+// Declarative name transforms. A transform is a list of steps applied to the
+// backer's name in order; nothing is ever evaluated as code. Shared by the
+// mapping step (live preview) and the job worker.
+
+export type TransformStep =
+  | { type: "trim" }
+  | { type: "case"; mode: "upper" | "lower" | "title" }
+  // Replaces every match unless `firstOnly` is set
+  | {
+      type: "replace";
+      find: string;
+      replaceWith: string;
+      regex?: boolean;
+      firstOnly?: boolean;
+    }
+  // Keeps the first match of `pattern` (or one of its groups). Names that
+  // don't match are left as they are.
+  | { type: "extract"; pattern: string; group?: number }
+  // Splits on `separator` and keeps one part. Negative indexes count from
+  // the end, so -1 is the last part.
+  | { type: "split"; separator: string; index: number }
+  | { type: "slugify" };
+
+export type TransformStepType = TransformStep["type"];
+
+export const TRANSFORM_STEP_LABELS: Record<TransformStepType, string> = {
+  trim: "Trim whitespace",
+  case: "Change case",
+  replace: "Find and replace",
+  extract: "Extract with a pattern",
+  split: "Split and keep one part",
+  slugify: "Slugify",
+};
+
+// Regexes typed by merchants run once per row in the web and worker
+// processes, so keep them small and refuse the shapes that can backtrack
+// for minutes on a single name
+const MAX_PATTERN_LENGTH = 200;
+
+export function createTransformStep(type: TransformStepType): TransformStep {
+  switch (type) {
+    case "case":
+      return { type, mode: "upper" };
+    case "replace":
+      return { type, find: "", replaceWith: "" };
+    case "extract":
+      return { type, pattern: "", group: 0 };
+    case "split":
+      return { type, separator: " ", index: 0 };
+    default:
+      return { type } as TransformStep;
+  }
+}
+
+// Returns an error message for the first unusable step, or null
+export function validateTransform(steps: TransformStep[]) {
+  if (!Array.isArray(steps)) {
+    return "The name transform must be a list of steps";
+  }
+
+  for (const [index, step] of steps.entries()) {
+    const error = validateStep(step);
+    if (error) {
+      return `Transform step ${index + 1}: ${error}`;
+    }
+  }
+
+  return null;
+}
+
+export function applyTransform(steps: TransformStep[], name: string) {
+  return steps.reduce((value, step) => applyStep(step, value), name);
+}
+
+// Converts a saved JavaScript transform (from before transforms were
+// declarative) into steps. Only the common shapes are understood: a
+// `return name` followed by chained trim/case/replace/split calls.
+export function convertLegacyTransform(
+  source: string,
+): { steps: TransformStep[] } | { error: string } {
+  const body = source
+    .trim()
+    .replace(/^return\s+/, "")
+    .replace(/;\s*$/, "")
+    .trim();
+
+  if (!body.startsWith("name")) {
+    return { error: "Only transforms that start with `return name` convert" };
+  }
+
+  const steps: TransformStep[] = [];
+  let rest = body.slice("name".length).trim();
+
+  while (rest) {
+    const call = matchLegacyCall(rest);
+    if (!call) {
+      return { error: `Can't convert "${rest}"` };
+    }
+
+    steps.push(...call.steps);
+    rest = rest.slice(call.length).trim();
+  }
+
+  return { steps };
+}
+
+function validateStep(step: TransformStep): string | null {
+  switch (step?.type) {
+    case "trim":
+    case "slugify":
+      return null;
+    case "case":
+      return ["upper", "lower", "title"].includes(step.mode)
+        ? null
+        : "Unknown case";
+    case "replace":
+      if (!step.find) {
+        return "Enter the text to find";
+      }
+      return step.regex ? validatePattern(step.find) : null;
+    case "extract":
+      return step.pattern
+        ? validatePattern(step.pattern)
+        : "Enter a pattern to extract";
+    case "split":
+      if (!step.separator) {
+        return "Enter a separator";
+      }
+      return Number.isInteger(step.index) ? null : "Enter a whole number";
+    default:
+      return "Unknown step";
+  }
+}
+
+function validatePattern(pattern: string) {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns can be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+
+  try {
+    new RegExp(pattern);
+  } catch (error: any) {
+    return `Invalid pattern: ${error.message}`;
+  }
+
+  return findUnsafeConstruct(pattern);
+}
+
+// Compiles a step's pattern, refusing unsafe ones even when a saved
+// transform skipped validation
+function compilePattern(pattern: string, flags = "") {
+  const error = validatePattern(pattern);
+  if (error) {
+    throw new Error(error);
+  }
+  return new RegExp(pattern, flags);
+}
+
+// Catastrophic backtracking needs a repeated group that can match the same
+// text more than one way: one that itself repeats, like (a+)+ or (\w*)*, or
+// one with alternatives, like (a|a)*. Backreferences are refused as well.
+// Returns an error for any of them.
+function findUnsafeConstruct(pattern: string) {
+  // One entry per open group: whether it contains a quantifier or a `|`
+  const groups: { repeats: boolean; alternates: boolean }[] = [];
+  // The group that just closed, until the next character
+  let closedGroup: (typeof groups)[number] | null = null;
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const character = pattern[i];
+    const quantified = isQuantifier(pattern, i);
+
+    if (quantified && closedGroup?.repeats) {
+      return "Patterns can't repeat a group that already repeats, like (a+)+";
+    }
+    if (quantified && closedGroup?.alternates) {
+      return "Patterns can't repeat a group with alternatives, like (a|b)+. Use a character class like [ab]+ instead.";
+    }
+    closedGroup = null;
+
+    const current = groups[groups.length - 1];
+    if (character === "\\") {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? "")) {
+        return "Patterns can't use backreferences";
+      }
+      i++;
+    } else if (inClass) {
+      inClass = character !== "]";
+    } else if (character === "[") {
+      inClass = true;
+    } else if (character === "(") {
+      groups.push({ repeats: false, alternates: false });
+    } else if (character === ")") {
+      closedGroup = groups.pop() ?? null;
+      const parent = groups[groups.length - 1];
+      if (closedGroup && parent) {
+        parent.repeats ||= closedGroup.repeats;
+        parent.alternates ||= closedGroup.alternates;
+      }
+    } else if (character === "|" && current) {
+      current.alternates = true;
+    } else if (quantified && current) {
+      current.repeats = true;
+    }
+  }
+
+  return null;
+}
+
+// Whether the character at `index` repeats what comes before it. `?` is left
+// out: an optional group runs at most once.
+function isQuantifier(pattern: string, index: number) {
+  const character = pattern[index];
+  if (character === "*" || character === "+") {
+    return true;
+  }
+  if (character === "{") {
+    return /^\{\d+(,\d*)?\}/.test(pattern.slice(index));
+  }
+  return false;
+}
+
+function applyStep(step: TransformStep, value: string): string {
+  switch (step.type) {
+    case "trim":
+      return value.trim();
+    case "case":
+      if (step.mode === "upper") return value.toUpperCase();
+      if (step.mode === "lower") return value.toLowerCase();
+      return value
+        .toLowerCase()
+        .replace(
+          /(^|[\s'-])(\p{L})/gu,
+          (_, before, letter) => `${before}${letter.toUpperCase()}`,
+        );
+    case "replace":
+      if (step.regex) {
+        const pattern = compilePattern(step.find, step.firstOnly ? "" : "g");
+        return value.replace(pattern, step.replaceWith);
+      }
+      return step.firstOnly
+        ? value.replace(step.find, () => step.replaceWith)
+        : value.split(step.find).join(step.replaceWith);
+    case "extract": {
+      const match = value.match(compilePattern(step.pattern));
+      return match ? (match[step.group ?? 0] ?? "") : value;
+    }
+    case "split": {
+      const parts = value.split(step.separator);
+      const index = step.index < 0 ? parts.length + step.index : step.index;
+      return parts[index] ?? "";
+    }
+    case "slugify":
+      return value
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+  }
+}
+
+const STRING_LITERAL = `(?:"((?:[^"\\\\]|\\\\.)*)"|'((?:[^'\\\\]|\\\\.)*)')`;
+const REGEX_LITERAL = `/((?:[^/\\\\]|\\\\.)+)/([gimsuy]*)`;
+
+// Recognises one chained call at the start of `source`
+function matchLegacyCall(
+  source: string,
+): { steps: TransformStep[]; length: number } | null {
+  const simple: [RegExp, TransformStep[]][] = [
+    [/^\.trim\(\)/, [{ type: "trim" }]],
+    [/^\.toUpperCase\(\)/, [{ type: "case", mode: "upper" }]],
+    [/^\.toLowerCase\(\)/, [{ type: "case", mode: "lower" }]],
+  ];
+  for (const [pattern, steps] of simple) {
+    const match = source.match(pattern);
+    if (match) {
+      return { steps, length: match[0].length };
+    }
+  }
+
+  const split = source.match(
+    new RegExp(
+      `^\\.split\\(\\s*${STRING_LITERAL}\\s*\\)\\s*\\[\\s*(\\d+)\\s*\\]`,
+    ),
+  );
+  if (split) {
+    return {
+      steps: [
+        {
+          type: "split",
+          separator: unescapeLiteral(split[1] ?? split[2]),
+          index: Number(split[3]),
+        },
+      ],
+      length: split[0].length,
+    };
+  }
+
+  const replaceString = source.match(
+    new RegExp(
+      `^\\.replace(All)?\\(\\s*${STRING_LITERAL}\\s*,\\s*${STRING_LITERAL}\\s*\\)`,
+    ),
+  );
+  if (replaceString) {
+    // String.replace only swaps the first occurrence, replaceAll every one
+    return {
+      steps: [
+        {
+          type: "replace",
+          find: unescapeLiteral(replaceString[2] ?? replaceString[3]),
+          replaceWith: unescapeLiteral(replaceString[4] ?? replaceString[5]),
+          firstOnly: !replaceString[1],
+        },
+      ],
+      length: replaceString[0].length,
+    };
+  }
+
+  const replaceRegex = source.match(
+    new RegExp(
+      `^\\.replace(?:All)?\\(\\s*${REGEX_LITERAL}\\s*,\\s*${STRING_LITERAL}\\s*\\)`,
+    ),
+  );
+  if (replaceRegex && !/[imsuy]/.test(replaceRegex[2])) {
+    return {
+      steps: [
+        {
+          type: "replace",
+          find: replaceRegex[1],
+          replaceWith: unescapeLiteral(replaceRegex[3] ?? replaceRegex[4]),
+          regex: true,
+          firstOnly: !replaceRegex[2].includes("g"),
+        },
+      ],
+      length: replaceRegex[0].length,
+    };
+  }
+
+  return null;
+}
+
+function unescapeLiteral(value: string) {
+  return value.replace(/\\(.)/g, (_, character) =>
+    character === "n" ? "\n" : character === "t" ? "\t" : character,
+  );
+}
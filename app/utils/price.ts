@@ -0,0 +1,197 @@
+// Parses pledge amounts as backer platforms export them: "$1,250.00",
+// "€12,50", "USD 40", "1 250,00 kr", "(15.00)". Shared by the mapping step
+// preview and the job worker.
+
+// Which character separates decimals. "auto" decides per value, which is
+// right for almost every export but can't tell "1,250" (thousands) from
+// "1,25" (decimals) without at least the digit count to go on.
+export type PriceFormat = "auto" | "point" | "comma";
+
+export type ParsedPrice =
+  | {
+      ok: true;
+      amount: number;
+      // ISO codes the value's currency could be. Empty when the value has no
+      // currency; several for symbols like "$" that many currencies use.
+      currencies: string[];
+    }
+  | { ok: false; reason: string };
+
+// Longest first, so "US$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string[]][] = [
+  ["US$", ["USD"]],
+  ["CA$", ["CAD"]],
+  ["AU$", ["AUD"]],
+  ["NZ$", ["NZD"]],
+  ["HK$", ["HKD"]],
+  ["MX$", ["MXN"]],
+  ["R$", ["BRL"]],
+  ["A$", ["AUD"]],
+  ["C$", ["CAD"]],
+  ["S$", ["SGD"]],
+  ["zł", ["PLN"]],
+  ["kr", ["SEK", "NOK", "DKK", "ISK"]],
+  ["Fr", ["CHF"]],
+  ["$", ["USD", "CAD", "AUD", "NZD", "HKD", "SGD", "MXN"]],
+  ["€", ["EUR"]],
+  ["£", ["GBP"]],
+  ["¥", ["JPY", "CNY"]],
+  ["₹", ["INR"]],
+  ["₩", ["KRW"]],
+  ["₽", ["RUB"]],
+  ["₺", ["TRY"]],
+  ["₪", ["ILS"]],
+  ["₱", ["PHP"]],
+  ["฿", ["THB"]],
+];
+
+// Spaces (including the non-breaking ones some locales use) and apostrophes
+// only ever group thousands
+const GROUP_SEPARATORS = /[\s']/g;
+
+export function parsePrice(
+  value: unknown,
+  format: PriceFormat = "auto",
+): ParsedPrice {
+  if (value === undefined || value === null) {
+    return { ok: false, reason: "Price is missing" };
+  }
+
+  let text = String(value).trim();
+  if (!text) {
+    return { ok: false, reason: "Price is blank" };
+  }
+  const original = text;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+
+  const currencies = new Set<string>();
+  const isoCode = text.match(/\b([A-Z]{3})\b/);
+  if (isoCode) {
+    currencies.add(isoCode[1]);
+    text = text.replace(isoCode[0], "");
+  }
+  for (const [symbol, codes] of CURRENCY_SYMBOLS) {
+    if (text.includes(symbol)) {
+      // An ISO code next to a symbol ("US$ USD 5") already says which one
+      if (!isoCode) {
+        codes.forEach((code) => currencies.add(code));
+      }
+      // Abbreviations are often written with a period ("Fr. 10", "kr. 100"),
+      // which would otherwise be read as a decimal point
+      const abbreviation = `${symbol}.`;
+      text =
+        /\p{L}$/u.test(symbol) && text.includes(abbreviation)
+          ? text.replace(abbreviation, "")
+          : text.replace(symbol, "");
+      break;
+    }
+  }
+
+  text = text.replace(GROUP_SEPARATORS, "");
+  if (/^-/.test(text) || /-$/.test(text)) {
+    negative = !negative;
+    text = text.replace(/^-|-$/, "");
+  }
+
+  // A leading separator is most likely left over from something that wasn't
+  // stripped, so ".10" isn't taken for 0.10
+  if (!/^\d[\d.,]*$/.test(text)) {
+    return { ok: false, reason: `"${original}" is not a price` };
+  }
+
+  const normalized = normalizeSeparators(text, format);
+  if (normalized === null) {
+    return {
+      ok: false,
+      reason: `Can't tell the thousands and decimal separators apart in "${original}"`,
+    };
+  }
+
+  const amount = Number(normalized);
+  if (!Number.isFinite(amount)) {
+    return { ok: false, reason: `"${original}" is not a price` };
+  }
+
+  return {
+    ok: true,
+    amount: negative ? -amount : amount,
+    currencies: [...currencies],
+  };
+}
+
+// A warning when a price's currency can't be the shop's, or null
+export function currencyMismatch(
+  currencies: string[],
+  shopCurrency: string | null | undefined,
+) {
+  if (!shopCurrency || !currencies.length) {
+    return null;
+  }
+  if (currencies.includes(shopCurrency)) {
+    return null;
+  }
+
+  return `Price is in ${currencies.join("/")} but the shop uses ${shopCurrency}`;
+}
+
+// Turns "1.250,00", "1,250.00" or "12,5" into a plain "1250.00" / "12.5".
+// Returns null when the separators don't make sense.
+function normalizeSeparators(text: string, format: PriceFormat) {
+  const decimal = format === "point" ? "." : format === "comma" ? "," : null;
+
+  if (decimal) {
+    const group = decimal === "." ? "," : ".";
+    const [whole, ...fraction] = text.split(decimal);
+    if (fraction.length > 1 || (fraction[0] ?? "").includes(group)) {
+      return null;
+    }
+    if (!validGrouping(whole, group)) {
+      return null;
+    }
+    return (
+      whole.split(group).join("") + (fraction.length ? `.${fraction[0]}` : "")
+    );
+  }
+
+  const lastPoint = text.lastIndexOf(".");
+  const lastComma = text.lastIndexOf(",");
+
+  // Both used: whichever comes last separates the decimals
+  if (lastPoint !== -1 && lastComma !== -1) {
+    return normalizeSeparators(text, lastPoint > lastComma ? "point" : "comma");
+  }
+
+  const separator = lastPoint !== -1 ? "." : lastComma !== -1 ? "," : null;
+  if (!separator) {
+    return text;
+  }
+
+  // The same separator more than once can only be grouping ("1.000.000")
+  const parts = text.split(separator);
+  if (parts.length > 2) {
+    return validGrouping(text, separator) ? parts.join("") : null;
+  }
+
+  // A single separator followed by exactly three digits is read as grouping
+  // for commas ("1,250") and as decimals for points ("1.250" is rare in
+  // pledge exports but "0.125" isn't)
+  if (separator === "," && parts[1].length === 3 && parts[0] !== "0") {
+    return parts.join("");
+  }
+  return `${parts[0]}.${parts[1]}`;
+}
+
+function validGrouping(whole: string, group: string) {
+  const groups = whole.split(group);
+  return (
+    groups.length === 1 ||
+    (groups[0].length >= 1 &&
+      groups[0].length <= 3 &&
+      groups.slice(1).every((part) => part.length === 3))
+  );
+}
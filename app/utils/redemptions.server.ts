@@ -0,0 +1,357 @@
+import db from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { createAdminClient, type AdminClient } from "./admin-client.server";
+import { findRowEmail } from "./customers.server";
+
+// How often the job worker reads a run's code usage back from Shopify
+const USAGE_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// Runs older than this are no longer checked; their campaigns are over
+const USAGE_TRACKING_DAYS = 365;
+const CODES_PAGE_SIZE = 100;
+
+const DISCOUNT_USAGE = `
+  query discountUsage($id: ID!, $first: Int!, $after: String) {
+    codeDiscountNode(id: $id) {
+      codeDiscount {
+        ... on DiscountCodeBasic {
+          status
+          codes(first: $first, after: $after) {
+            ...redeemCodeUsage
+          }
+        }
+        ... on DiscountCodeBxgy {
+          status
+          codes(first: $first, after: $after) {
+            ...redeemCodeUsage
+          }
+        }
+        ... on DiscountCodeFreeShipping {
+          status
+          codes(first: $first, after: $after) {
+            ...redeemCodeUsage
+          }
+        }
+      }
+    }
+  }
+
+  fragment redeemCodeUsage on DiscountRedeemCodeConnection {
+    nodes {
+      code
+      asyncUsageCount
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+  }
+`;
+
+// The fields of an orders/create webhook payload used to attribute codes
+export interface OrderPayload {
+  admin_graphql_api_id: string;
+  name: string;
+  currency: string;
+  created_at: string;
+  discount_codes?: { code: string; amount: string }[];
+}
+
+// Records which of the shop's generated codes an order used. A code issued
+// again to the same backer in a later run counts for every run that lists it.
+export async function recordOrderRedemptions(
+  shop: string,
+  order: OrderPayload,
+) {
+  let recorded = 0;
+
+  for (const discount of order.discount_codes ?? []) {
+    const codes: any[] = await db.generatedCode.findMany({
+      where: {
+        status: "success",
+        // Generated codes are stored uppercase; Shopify matches codes
+        // regardless of case
+        discountCode: discount.code.trim().toUpperCase(),
+        run: { shop, dryRun: false },
+      },
+      select: { runId: true, row: true },
+    });
+
+    for (const code of codes) {
+      // Shopify retries webhooks, so the same order may arrive twice
+      await db.redemption.upsert({
+        where: {
+          runId_row_orderId: {
+            runId: code.runId,
+            row: code.row,
+            orderId: order.admin_graphql_api_id,
+          },
+        },
+        create: {
+          shop,
+          runId: code.runId,
+          row: code.row,
+          code: discount.code,
+          orderId: order.admin_graphql_api_id,
+          orderName: order.name,
+          amount: Number(discount.amount) || 0,
+          currency: order.currency,
+          redeemedAt: new Date(order.created_at),
+        },
+        update: {},
+      });
+      recorded++;
+    }
+  }
+
+  return recorded;
+}
+
+// Asks the job worker to check a run's code usage as soon as it is free
+export async function requestUsageRefresh(shop: string, runId: string) {
+  const { count } = await db.generationRun.updateMany({
+    where: { id: runId, shop, dryRun: false },
+    data: { usageCheckedAt: null },
+  });
+
+  if (count === 0) {
+    throw new Error("Run not found");
+  }
+}
+
+// Claims the run whose usage is most overdue and reads it back from Shopify.
+// Returns false when no run is due. Claiming stamps the check time first, so
+// a run that keeps failing is only retried on the next interval.
+// `shouldYield` is asked between discounts; when it returns true the check
+// stops and the run is due again straight away.
+export async function refreshNextRunUsage(shouldYield: () => Promise<boolean>) {
+  const dueBefore = new Date(Date.now() - USAGE_REFRESH_INTERVAL_MS);
+  const createdAfter = new Date(
+    Date.now() - USAGE_TRACKING_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const claimed: { id: string; shop: string }[] = await db.$queryRaw`
+    UPDATE "GenerationRun"
+    SET "usageCheckedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "GenerationRun"
+      WHERE "status" IN ('completed', 'failed')
+        AND "dryRun" = false
+        AND "successful" > 0
+        AND "createdAt" > ${createdAfter}
+        AND ("usageCheckedAt" IS NULL OR "usageCheckedAt" < ${dueBefore})
+      ORDER BY "usageCheckedAt" NULLS FIRST, "createdAt"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "shop"
+  `;
+
+  const run = claimed[0];
+  if (!run) {
+    return false;
+  }
+
+  let usageError: string | null = null;
+  let finished = true;
+  try {
+    const { admin } = await unauthenticated.admin(run.shop);
+    finished = await refreshRunUsage(
+      createAdminClient(admin.graphql),
+      run.id,
+      shouldYield,
+    );
+  } catch (error: any) {
+    console.error(`Usage check failed for run ${run.id}:`, error);
+    usageError = error.message ?? String(error);
+  }
+
+  await db.generationRun.update({
+    where: { id: run.id },
+    data: finished ? { usageError } : { usageCheckedAt: null },
+  });
+
+  return true;
+}
+
+// Stores how often each of a run's codes has been used and whether its
+// discount is still active. Returns false when `shouldYield` stopped it
+// before every discount was checked.
+export async function refreshRunUsage(
+  client: AdminClient,
+  runId: string,
+  shouldYield: () => Promise<boolean> = async () => false,
+) {
+  const codes: any[] = await db.generatedCode.findMany({
+    where: {
+      runId,
+      status: "success",
+      discountId: { not: null },
+      discountCode: { not: null },
+    },
+    select: { row: true, discountId: true, discountCode: true },
+  });
+
+  // Grouped runs share one discount between many codes
+  const byDiscount = new Map<string, any[]>();
+  for (const code of codes) {
+    byDiscount.set(code.discountId, [
+      ...(byDiscount.get(code.discountId) ?? []),
+      code,
+    ]);
+  }
+
+  for (const [discountId, rows] of byDiscount) {
+    // Individual runs have a discount per backer, so a large run takes a
+    // while; queued generation runs go first
+    if (await shouldYield()) {
+      return false;
+    }
+
+    const usage = await fetchDiscountUsage(client, discountId);
+
+    for (const row of rows) {
+      await db.generatedCode.update({
+        where: { runId_row: { runId, row: row.row } },
+        // A deleted discount keeps the usage last seen
+        data: usage
+          ? {
+              usageCount: usage.codes.get(row.discountCode.toLowerCase()) ?? 0,
+              discountStatus: usage.status,
+            }
+          : { discountStatus: "DELETED" },
+      });
+    }
+  }
+
+  return true;
+}
+
+// Usage of every code of a discount, keyed by lowercased code, or null when
+// the discount no longer exists
+async function fetchDiscountUsage(client: AdminClient, discountId: string) {
+  const codes = new Map<string, number>();
+  let status = "";
+  let after: string | null = null;
+
+  do {
+    const response = await client.request(DISCOUNT_USAGE, {
+      id: discountId,
+      first: CODES_PAGE_SIZE,
+      after,
+    });
+
+    if (response.errors?.length) {
+      throw new Error(response.errors.map((e: any) => e.message).join(", "));
+    }
+
+    const discount = response.data?.codeDiscountNode?.codeDiscount;
+    if (!discount?.codes) {
+      return null;
+    }
+
+    status = discount.status;
+    for (const node of discount.codes.nodes) {
+      codes.set(node.code.toLowerCase(), node.asyncUsageCount);
+    }
+    after = discount.codes.pageInfo.hasNextPage
+      ? discount.codes.pageInfo.endCursor
+      : null;
+  } while (after);
+
+  return { status, codes };
+}
+
+export interface UnredeemedBacker {
+  row: number;
+  customer: string;
+  email: string | null;
+  discountCode: string;
+  amount: number | null;
+  discountStatus: string | null;
+}
+
+// Redeemed and outstanding codes of a run, for its redemption dashboard. A
+// code counts as redeemed when Shopify reports a use or an order was seen.
+export async function getRunRedemptions(shop: string, runId: string) {
+  const run = await db.generationRun.findFirst({
+    where: { id: runId, shop, dryRun: false },
+    include: {
+      codes: {
+        where: { status: "success", discountCode: { not: null } },
+        orderBy: { row: "asc" },
+      },
+      redemptions: { orderBy: { redeemedAt: "desc" } },
+    },
+  });
+
+  if (!run) {
+    return null;
+  }
+
+  const redemptions: any[] = run.redemptions;
+
+  // Orders can be in any of the shop's presentment currencies
+  const valueByCurrency = new Map<string, number>();
+  for (const redemption of redemptions) {
+    valueByCurrency.set(
+      redemption.currency,
+      (valueByCurrency.get(redemption.currency) ?? 0) + redemption.amount,
+    );
+  }
+  const redeemedRows = new Set(redemptions.map((redemption) => redemption.row));
+  const emailColumns = [
+    run.settings?.customerEmailColumn,
+    run.mapping?.emailColumn,
+    run.mapping?.backerKeyColumn,
+  ];
+
+  const unredeemed: UnredeemedBacker[] = [];
+  let redeemed = 0;
+  for (const code of run.codes as any[]) {
+    if ((code.usageCount ?? 0) > 0 || redeemedRows.has(code.row)) {
+      redeemed++;
+      continue;
+    }
+
+    unredeemed.push({
+      row: code.row,
+      customer: code.customer,
+      email: findRowEmail(code.rowData ?? {}, emailColumns),
+      discountCode: code.discountCode,
+      amount: code.amount,
+      discountStatus: code.discountStatus,
+    });
+  }
+
+  return {
+    run: {
+      id: run.id as string,
+      fileName: run.fileName as string | null,
+      status: run.status as string,
+      createdAt: run.createdAt as Date,
+      usageCheckedAt: run.usageCheckedAt as Date | null,
+      usageError: run.usageError as string | null,
+    },
+    summary: {
+      codes: run.codes.length as number,
+      redeemed,
+      outstanding: unredeemed.length,
+      // Only orders received by the orders/create webhook, while
+      // `redeemed` also counts uses Shopify reported
+      observedValue: Array.from(valueByCurrency, ([currency, amount]) => ({
+        currency,
+        amount,
+      })),
+      orders: new Set(redemptions.map((redemption) => redemption.orderId)).size,
+    },
+    redemptions: redemptions.map((redemption) => ({
+      row: redemption.row as number,
+      code: redemption.code as string,
+      orderName: redemption.orderName as string,
+      amount: redemption.amount as number,
+      currency: redemption.currency as string,
+      redeemedAt: redemption.redeemedAt as Date,
+    })),
+    unredeemed,
+  };
+}
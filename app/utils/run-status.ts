@@ -0,0 +1,87 @@
+// Labels and badge tones for runs and their rows, shared by the run history
+// pages
+
+export const RUN_STATUS_OPTIONS = [
+  { label: "Queued", value: "queued" },
+  { label: "Running", value: "running" },
+  { label: "Completed", value: "completed" },
+  { label: "Failed", value: "failed" },
+];
+
+export const ROW_STATUS_OPTIONS = [
+  { label: "Created", value: "success" },
+  { label: "Would create", value: "would_create" },
+  { label: "Error", value: "error" },
+  { label: "Pending", value: "pending" },
+];
+
+// Copying a row's code to its Shopify customer
+export const SYNC_STATUS_OPTIONS = [
+  { label: "Synced", value: "synced" },
+  { label: "Skipped", value: "skipped" },
+  { label: "Error", value: "error" },
+  { label: "Pending", value: "pending" },
+];
+
+type BadgeTone = "info" | "success" | "warning" | "critical" | undefined;
+
+export function runStatusLabel(status: string) {
+  return (
+    RUN_STATUS_OPTIONS.find((option) => option.value === status)?.label ??
+    status
+  );
+}
+
+// A completed run with failed rows still needs attention
+export function runStatusTone(status: string, errors: number): BadgeTone {
+  switch (status) {
+    case "completed":
+      return errors > 0 ? "warning" : "success";
+    case "failed":
+      return "critical";
+    case "running":
+      return "info";
+    default:
+      return undefined;
+  }
+}
+
+export function rowStatusLabel(status: string) {
+  return (
+    ROW_STATUS_OPTIONS.find((option) => option.value === status)?.label ??
+    status
+  );
+}
+
+export function rowStatusTone(status: string): BadgeTone {
+  switch (status) {
+    case "success":
+      return "success";
+    case "would_create":
+      return "info";
+    case "error":
+      return "critical";
+    default:
+      return undefined;
+  }
+}
+
+export function syncStatusLabel(status: string) {
+  return (
+    SYNC_STATUS_OPTIONS.find((option) => option.value === status)?.label ??
+    status
+  );
+}
+
+export function syncStatusTone(status: string): BadgeTone {
+  switch (status) {
+    case "synced":
+      return "success";
+    case "error":
+      return "critical";
+    case "pending":
+      return "info";
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,520 @@
+import db from "../db.server";
+import type {
+  CustomerSyncOptions,
+  CustomerSyncResult,
+} from "./customer-sync.server";
+import type { DiscountResult, GenerationConfig } from "./discount.server";
+import type { DiscountSettings } from "./discount-types.server";
+import { getOriginalHeaders } from "./export-profiles";
+import { convertLegacyTransform, type TransformStep } from "./name-transform";
+
+export interface RunMapping {
+  nameColumn: string;
+  priceColumn: string;
+  // Email or platform backer ID column used to recognise repeat backers
+  backerKeyColumn?: string;
+  // Backer email column, used to check emails and find customers when
+  // syncing. Codes are only restricted to customers by the settings.
+  emailColumn?: string;
+  // Reward tier column; splits grouped discounts by tier as well as amount
+  tierColumn?: string;
+}
+
+// "individual" creates one discount per backer, "grouped" one discount per
+// amount/tier with a redeem code per backer
+export type RunMode = "individual" | "grouped";
+
+export type RunStatus = "queued" | "running" | "completed" | "failed";
+
+export interface RunConfig extends GenerationConfig {
+  fileName: string | null;
+  // The uploaded file's headers, in its order
+  headers: string[];
+  // Backers get one code per campaign: a returning backer in a new campaign
+  // gets a new code
+  campaign: string;
+  mode: RunMode;
+  // Check every row without creating discounts, customers or codes
+  dryRun?: boolean;
+}
+
+// Stores a run with one "pending" row per CSV line, numbered as in the file
+// so excluded rows leave gaps rather than shifting the rest. The job worker
+// picks the run up from here and fills the rows in as it goes.
+export async function createGenerationRun(
+  shop: string,
+  {
+    fileName,
+    headers,
+    campaign,
+    mapping,
+    transform,
+    mode,
+    settings,
+    dryRun = false,
+  }: RunConfig,
+  rows: { row: number; data: any }[],
+) {
+  const run = await db.generationRun.create({
+    data: {
+      shop,
+      fileName,
+      headers,
+      campaign,
+      mapping,
+      transformSteps: transform,
+      mode,
+      settings,
+      dryRun,
+      status: "queued",
+      total: rows.length,
+      codes: {
+        create: rows.map(({ row, data }) => ({
+          row,
+          customer: String(data[mapping.nameColumn] || "Unknown"),
+          status: "pending",
+          message: "Waiting to be processed",
+          rowData: data,
+        })),
+      },
+    },
+  });
+
+  return run.id as string;
+}
+
+// Puts only the failed rows of a finished run back in the queue. Successful
+// rows keep their codes, so retrying never duplicates a discount.
+export async function requeueFailedRows(shop: string, runId: string) {
+  return db.$transaction(async (tx: any) => {
+    const run = await tx.generationRun.findFirst({
+      where: { id: runId, shop },
+    });
+
+    if (!run) {
+      throw new Error("Run not found");
+    }
+    if (run.status === "queued" || run.status === "running") {
+      throw new Error("This run is still being processed");
+    }
+
+    const { count } = await tx.generatedCode.updateMany({
+      where: { runId, status: "error" },
+      data: {
+        status: "pending",
+        message: "Waiting to be retried",
+        processedAt: null,
+      },
+    });
+
+    if (count === 0) {
+      throw new Error("This run has no failed rows to retry");
+    }
+
+    await tx.generationRun.update({
+      where: { id: runId },
+      data: {
+        status: "queued",
+        attempts: 0,
+        lastError: null,
+        finishedAt: null,
+      },
+    });
+
+    return count as number;
+  });
+}
+
+// Queues a finished run to write its codes to the matching customers. Every
+// row with a code is synced again, so a changed campaign name reaches them all.
+export async function requestCustomerSync(
+  shop: string,
+  runId: string,
+  options: CustomerSyncOptions,
+) {
+  return db.$transaction(async (tx: any) => {
+    const run = await tx.generationRun.findFirst({
+      where: { id: runId, shop },
+    });
+
+    if (!run) {
+      throw new Error("Run not found");
+    }
+    if (run.dryRun) {
+      throw new Error("A dry run has no codes to sync");
+    }
+    if (run.status === "queued" || run.status === "running") {
+      throw new Error("This run is still being processed");
+    }
+
+    const { count } = await tx.generatedCode.updateMany({
+      where: { runId, status: "success", discountCode: { not: null } },
+      data: {
+        syncStatus: "pending",
+        syncMessage: "Waiting to be synced",
+      },
+    });
+
+    if (count === 0) {
+      throw new Error("This run has no codes to sync");
+    }
+
+    await tx.generationRun.update({
+      where: { id: runId },
+      data: {
+        customerSync: {
+          campaignName: options.campaignName.trim(),
+          tag: options.tag?.trim() || undefined,
+        },
+        // lastError is kept so a failed run is failed again once synced
+        status: "queued",
+        attempts: 0,
+        finishedAt: null,
+      },
+    });
+
+    return count as number;
+  });
+}
+
+export async function saveRowResult(runId: string, result: DiscountResult) {
+  await db.generatedCode.update({
+    where: { runId_row: { runId, row: result.row } },
+    data: {
+      customer: String(result.customer),
+      status: result.status,
+      discountCode: result.discountCode ?? null,
+      discountId: result.discountId ?? null,
+      customerId: result.customerId ?? null,
+      pledge: result.pledge ?? null,
+      amount: result.amount ?? null,
+      message: result.message,
+      processedAt: new Date(),
+    },
+  });
+}
+
+export async function saveSyncResult(
+  runId: string,
+  row: number,
+  result: CustomerSyncResult,
+) {
+  await db.generatedCode.update({
+    where: { runId_row: { runId, row } },
+    data: {
+      syncStatus: result.status,
+      syncMessage: result.message,
+    },
+  });
+}
+
+// Recomputes the summary counts from the stored rows so they stay correct
+// even if a worker died between writing a row and updating the run
+export async function refreshRunCounts(runId: string) {
+  const count = await countRowsByStatus(runId);
+
+  await db.generationRun.update({
+    where: { id: runId },
+    data: {
+      successful: count("success") + count("would_create"),
+      errors: count("error"),
+    },
+  });
+}
+
+// Runs queued before transforms were declarative stored JavaScript rather
+// than steps. It's converted when possible and never evaluated.
+export function getRunTransform(run: {
+  transform: string | null;
+  transformSteps: unknown;
+}) {
+  if (run.transform) {
+    return convertLegacyTransform(run.transform);
+  }
+
+  return { steps: (run.transformSteps ?? []) as TransformStep[] };
+}
+
+// Loads a run's settings and summary so the page can restore its form,
+// results and exports after a reload. The rows themselves are paged with
+// listRunResults, and only the export route loads them all.
+export async function getGenerationRun(shop: string, runId: string) {
+  const run = await db.generationRun.findFirst({
+    where: { id: runId, shop },
+  });
+
+  if (!run) {
+    return null;
+  }
+
+  const transform = getRunTransform(run);
+  const [syncGroups, firstRow] = await Promise.all([
+    db.generatedCode.groupBy({
+      by: ["syncStatus"],
+      where: { runId, syncStatus: { not: null } },
+      _count: { _all: true },
+    }),
+    // Runs stored before the headers were kept take them from a row
+    (run.headers ?? []).length
+      ? null
+      : db.generatedCode.findFirst({
+          where: { runId },
+          orderBy: { row: "asc" },
+          select: { rowData: true },
+        }),
+  ]);
+
+  return {
+    id: run.id as string,
+    fileName: run.fileName as string | null,
+    campaign: run.campaign as string,
+    mapping: run.mapping as RunMapping,
+    transform: "steps" in transform ? transform.steps : [],
+    // The original JavaScript when the run has one that couldn't be converted
+    legacyTransform: "error" in transform ? (run.transform as string) : null,
+    transformError: "error" in transform ? transform.error : null,
+    mode: run.mode as RunMode,
+    dryRun: run.dryRun as boolean,
+    settings: run.settings as DiscountSettings,
+    customerSync: run.customerSync as CustomerSyncOptions | null,
+    status: run.status as RunStatus,
+    lastError: run.lastError as string | null,
+    createdAt: run.createdAt as Date,
+    finishedAt: run.finishedAt as Date | null,
+    summary: {
+      total: run.total as number,
+      successful: run.successful as number,
+      errors: run.errors as number,
+    },
+    // Rows per customer sync status
+    syncCounts: Object.fromEntries(
+      syncGroups.map((group: any) => [group.syncStatus, group._count._all]),
+    ) as Record<string, number>,
+    originalHeaders: getOriginalHeaders(
+      (run.headers ?? []) as string[],
+      firstRow ? [firstRow.rowData] : [],
+    ),
+  };
+}
+
+const RUN_RESULTS_PAGE_SIZE = 50;
+
+export interface RunResultFilters {
+  status?: string | null;
+  // Matches backer names and discount codes
+  search?: string | null;
+  page?: number;
+}
+
+export type RunResult = DiscountResult & {
+  syncStatus?: string;
+  syncMessage?: string;
+};
+
+// One page of a run's rows in file order, filtered in the database so the
+// page never holds the whole run. The uploaded row data stays on the server.
+export async function listRunResults(
+  runId: string,
+  { status, search, page = 1 }: RunResultFilters = {},
+) {
+  const where: any = { runId };
+  if (status) {
+    where.status = status;
+  }
+
+  const term = search?.trim();
+  if (term) {
+    where.OR = [
+      { customer: { contains: term, mode: "insensitive" } },
+      { discountCode: { contains: term, mode: "insensitive" } },
+    ];
+  }
+
+  const [codes, matching]: [any[], number] = await Promise.all([
+    db.generatedCode.findMany({
+      where,
+      orderBy: { row: "asc" },
+      skip: (page - 1) * RUN_RESULTS_PAGE_SIZE,
+      take: RUN_RESULTS_PAGE_SIZE,
+      omit: { rowData: true },
+    }),
+    db.generatedCode.count({ where }),
+  ]);
+
+  return {
+    results: codes.map(toRunResult),
+    page,
+    pageCount: Math.max(1, Math.ceil(matching / RUN_RESULTS_PAGE_SIZE)),
+    matching,
+  };
+}
+
+// Every row of a run with the uploaded data it came from, for exports
+export async function loadRunRows(runId: string) {
+  const codes: any[] = await db.generatedCode.findMany({
+    where: { runId },
+    orderBy: { row: "asc" },
+  });
+
+  return {
+    results: codes.map(toRunResult),
+    originalData: codes.map((code) => code.rowData),
+  };
+}
+
+function toRunResult(code: any): RunResult {
+  return {
+    row: code.row,
+    customer: code.customer,
+    status: code.status,
+    discountCode: code.discountCode ?? undefined,
+    discountId: code.discountId ?? undefined,
+    customerId: code.customerId ?? undefined,
+    pledge: code.pledge ?? undefined,
+    amount: code.amount ?? undefined,
+    message: code.message,
+    syncStatus: code.syncStatus ?? undefined,
+    syncMessage: code.syncMessage ?? undefined,
+  };
+}
+
+const RUN_HISTORY_PAGE_SIZE = 25;
+
+export interface RunHistoryFilters {
+  status?: RunStatus | null;
+  // Matches backer names and discount codes anywhere in the run
+  search?: string | null;
+  page?: number;
+}
+
+// A shop's runs, newest first, for the run history page
+export async function listGenerationRuns(
+  shop: string,
+  { status, search, page = 1 }: RunHistoryFilters = {},
+) {
+  const where: any = { shop };
+  if (status) {
+    where.status = status;
+  }
+
+  const term = search?.trim();
+  if (term) {
+    where.codes = {
+      some: {
+        OR: [
+          { customer: { contains: term, mode: "insensitive" } },
+          { discountCode: { contains: term, mode: "insensitive" } },
+        ],
+      },
+    };
+  }
+
+  // One extra run tells whether there is a next page
+  const runs: any[] = await db.generationRun.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    skip: (page - 1) * RUN_HISTORY_PAGE_SIZE,
+    take: RUN_HISTORY_PAGE_SIZE + 1,
+    select: {
+      id: true,
+      fileName: true,
+      mode: true,
+      dryRun: true,
+      status: true,
+      total: true,
+      successful: true,
+      errors: true,
+      createdAt: true,
+      finishedAt: true,
+    },
+  });
+
+  return {
+    runs: runs.slice(0, RUN_HISTORY_PAGE_SIZE).map((run) => ({
+      id: run.id as string,
+      fileName: run.fileName as string | null,
+      mode: run.mode as RunMode,
+      dryRun: run.dryRun as boolean,
+      status: run.status as RunStatus,
+      total: run.total as number,
+      successful: run.successful as number,
+      errors: run.errors as number,
+      createdAt: run.createdAt as Date,
+      finishedAt: run.finishedAt as Date | null,
+    })),
+    page,
+    hasNextPage: runs.length > RUN_HISTORY_PAGE_SIZE,
+  };
+}
+
+export interface RunProgress {
+  id: string;
+  status: RunStatus;
+  lastError: string | null;
+  total: number;
+  processed: number;
+  successful: number;
+  errors: number;
+  etaSeconds: number | null;
+}
+
+// Counts-only snapshot of a run for the progress endpoint, which pages poll
+// every few seconds while the worker has the run
+export async function getRunProgress(
+  shop: string,
+  runId: string,
+): Promise<RunProgress | null> {
+  const run = await db.generationRun.findFirst({
+    where: { id: runId, shop },
+  });
+
+  if (!run) {
+    return null;
+  }
+
+  // Count straight from the rows: the run's own counters are only refreshed
+  // once per worker batch
+  const count = await countRowsByStatus(runId);
+
+  const total = run.total as number;
+  const pending = count("pending");
+  const processed = total - pending;
+
+  // Estimate from the pace of the current attempt only, so rows finished by
+  // an earlier attempt or a previous worker don't skew the rate
+  let etaSeconds: number | null = null;
+  if (run.status === "running" && run.startedAt && pending > 0) {
+    const processedThisAttempt = await db.generatedCode.count({
+      where: { runId, processedAt: { gte: run.startedAt } },
+    });
+    const elapsedMs = Date.now() - run.startedAt.getTime();
+
+    if (processedThisAttempt > 0) {
+      etaSeconds = Math.round(
+        ((elapsedMs / processedThisAttempt) * pending) / 1000,
+      );
+    }
+  }
+
+  return {
+    id: run.id,
+    status: run.status,
+    lastError: run.lastError,
+    total,
+    processed,
+    successful: count("success") + count("would_create"),
+    errors: count("error"),
+    etaSeconds,
+  };
+}
+
+async function countRowsByStatus(runId: string) {
+  const groups = await db.generatedCode.groupBy({
+    by: ["status"],
+    where: { runId },
+    _count: { _all: true },
+  });
+
+  return (status: string): number =>
+    groups.find((group: any) => group.status === status)?._count._all ?? 0;
+}
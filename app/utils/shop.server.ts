@@ -0,0 +1,21 @@
+import type { AdminClient } from "./admin-client.server";
+
+const SHOP_CURRENCY = `
+  query shopCurrency {
+    shop {
+      currencyCode
+    }
+  }
+`;
+
+// The shop's store currency, or null when it can't be read. Only used for
+// warnings, so a failure here never stops a run.
+export async function getShopCurrency(client: AdminClient) {
+  try {
+    const response = await client.request(SHOP_CURRENCY);
+    return (response.data?.shop?.currencyCode as string | undefined) ?? null;
+  } catch (error) {
+    console.error("Could not load the shop currency:", error);
+    return null;
+  }
+}
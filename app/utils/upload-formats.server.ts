@@ -0,0 +1,308 @@
+import { Readable } from "stream";
+import ExcelJS from "exceljs";
+import { parseCSV } from "./csv.server";
+import type { RowSource } from "./uploads.server";
+
+export type UploadFormat = "csv" | "xlsx" | "json" | "ndjson";
+
+const EXTENSIONS: Record<string, UploadFormat> = {
+  csv: "csv",
+  tsv: "csv",
+  txt: "csv",
+  xlsx: "xlsx",
+  json: "json",
+  ndjson: "ndjson",
+  jsonl: "ndjson",
+};
+
+// Excel and JSON files are read into memory whole (CSV and NDJSON stream), so
+// cap their size. Excel compresses well, so sheets are capped by rows too.
+const MAX_BUFFERED_BYTES = 20 * 1024 * 1024;
+const MAX_SHEET_ROWS = 100_000;
+
+export interface UploadOptions {
+  // Worksheet to read from an Excel file. Defaults to the first one.
+  sheet?: string;
+}
+
+// Reads an uploaded file of any supported format as rows of column values,
+// the same shape parseCSV produces
+export async function parseUpload(
+  fileName: string,
+  input: AsyncIterable<Uint8Array>,
+  options: UploadOptions = {},
+): Promise<RowSource> {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  const format = EXTENSIONS[extension];
+
+  switch (format) {
+    case "csv":
+      return parseCSV(input);
+    case "xlsx":
+      return parseXLSX(await readAll(input), options.sheet);
+    case "json":
+      return parseJSON(await readAll(input));
+    case "ndjson":
+      return parseNDJSON(input);
+    default:
+      throw new Error(
+        `Unsupported file type ".${extension}". Upload a CSV, Excel (.xlsx), JSON or NDJSON file.`,
+      );
+  }
+}
+
+// Excel files are zip archives, which can't be read front to back, so the
+// whole workbook is loaded
+async function parseXLSX(
+  bytes: Buffer,
+  sheetName?: string,
+): Promise<RowSource> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await checkSheetRows(bytes);
+    // ExcelJS declares its own Buffer type, which only an ArrayBuffer fits
+    await workbook.xlsx.load(new Uint8Array(bytes).buffer);
+  } catch (error: any) {
+    throw new Error(`Could not read the Excel file: ${error.message}`);
+  }
+
+  const sheets = workbook.worksheets.map((worksheet) => worksheet.name);
+  const worksheet = sheetName
+    ? workbook.getWorksheet(sheetName)
+    : workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error(
+      sheetName
+        ? `The workbook has no sheet called "${sheetName}"`
+        : "The workbook has no sheets",
+    );
+  }
+
+  // The first row with anything in it holds the column names
+  let headers: string[] = [];
+  let headerRow = 0;
+  worksheet.eachRow((row, rowNumber) => {
+    if (!headerRow) {
+      headerRow = rowNumber;
+      headers = uniqueHeaders(
+        Array.from({ length: row.cellCount }, (_, index) =>
+          cellText(row.getCell(index + 1).value),
+        ),
+      );
+    }
+  });
+
+  async function* rows() {
+    for (let number = headerRow + 1; number <= worksheet!.rowCount; number++) {
+      const row = worksheet!.getRow(number);
+      if (!row.hasValues) {
+        continue;
+      }
+
+      // Cells past the last header are named like csv-parser names them
+      const values: Record<string, unknown> = {};
+      const columns = Math.max(headers.length, row.cellCount);
+      for (let column = 1; column <= columns; column++) {
+        const text = cellText(row.getCell(column).value);
+        if (column <= headers.length) {
+          values[headers[column - 1]] = text;
+        } else if (text) {
+          values[`_${column - 1}`] = text;
+        }
+      }
+      yield values;
+    }
+  }
+
+  return {
+    headers,
+    rows: rows(),
+    format: `Excel, sheet "${worksheet.name}"`,
+    sheets,
+    sheet: worksheet.name,
+  };
+}
+
+// Counts each sheet's rows with the streaming reader, which holds one row at
+// a time, so an oversized workbook is refused before it is loaded whole
+async function checkSheetRows(bytes: Buffer) {
+  const reader = new ExcelJS.stream.xlsx.WorkbookReader(Readable.from(bytes), {
+    sharedStrings: "ignore",
+    hyperlinks: "ignore",
+    styles: "ignore",
+    entries: "ignore",
+  });
+
+  for await (const worksheet of reader) {
+    for await (const row of worksheet) {
+      if (row.number > MAX_SHEET_ROWS) {
+        throw new Error(
+          `A sheet has more than ${MAX_SHEET_ROWS} rows. Split the backer list into smaller files or upload it as CSV.`,
+        );
+      }
+    }
+  }
+}
+
+// A JSON array of backer objects, or an object with one such array in it
+function parseJSON(bytes: Buffer): RowSource {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error: any) {
+    throw new Error(`The file is not valid JSON: ${error.message}`);
+  }
+
+  const arrays = Array.isArray(parsed)
+    ? [parsed]
+    : Object.values((parsed ?? {}) as object).filter(Array.isArray);
+  if (arrays.length !== 1) {
+    throw new Error("The JSON file must be a list of backers");
+  }
+
+  const records = arrays[0].map((record, index) => toRow(record, index + 1));
+  const headers = collectHeaders(records);
+  // Keys missing from a backer are empty cells, as in a spreadsheet
+  const rows = records.map((record) =>
+    Object.fromEntries(headers.map((header) => [header, record[header] ?? ""])),
+  );
+
+  return {
+    headers,
+    rows: (async function* () {
+      yield* rows;
+    })(),
+    format: "JSON",
+  };
+}
+
+// One JSON object per line. Read line by line, so large exports never sit in
+// memory whole.
+async function parseNDJSON(input: AsyncIterable<Uint8Array>) {
+  const source: RowSource = { headers: [], rows: lines(), format: "NDJSON" };
+  const seen = new Set<string>();
+
+  async function* lines() {
+    const decoder = new TextDecoder();
+    let buffered = "";
+    let lineNumber = 0;
+
+    const parseLine = (line: string) => {
+      lineNumber++;
+      if (!line.trim()) {
+        return null;
+      }
+
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${lineNumber} is not valid JSON`);
+      }
+
+      const row = toRow(record, lineNumber);
+      for (const key of Object.keys(row)) {
+        if (!seen.has(key)) {
+          seen.add(key);
+          source.headers.push(key);
+        }
+      }
+      return row;
+    };
+
+    for await (const chunk of input) {
+      buffered += decoder.decode(chunk, { stream: true });
+      const complete = buffered.split("\n");
+      buffered = complete.pop()!;
+      for (const line of complete) {
+        const row = parseLine(line);
+        if (row) yield row;
+      }
+    }
+
+    const row = parseLine(buffered + decoder.decode());
+    if (row) yield row;
+  }
+
+  return source;
+}
+
+// Flattens one backer object into column values. Nested values are kept as
+// JSON so nothing is lost.
+function toRow(record: unknown, position: number): Record<string, unknown> {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    throw new Error(`Backer ${position} is not an object`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      value === null || value === undefined
+        ? ""
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value),
+    ]),
+  );
+}
+
+function collectHeaders(rows: Record<string, unknown>[]) {
+  const headers = new Set<string>();
+  for (const row of rows) {
+    Object.keys(row).forEach((key) => headers.add(key));
+  }
+  return [...headers];
+}
+
+// Blank headers get a placeholder and repeated ones a number, so every
+// column can be picked in the mapping
+function uniqueHeaders(names: string[]) {
+  const seen = new Map<string, number>();
+  return names.map((name, index) => {
+    const base = name.trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (value instanceof Date) {
+    // Excel dates have no time zone; keep the date alone when there's no time
+    const iso = value.toISOString();
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === "object") {
+    if ("richText" in value) {
+      return value.richText.map((part) => part.text).join("");
+    }
+    if ("formula" in value || "sharedFormula" in value) {
+      return cellText((value as ExcelJS.CellFormulaValue).result ?? null);
+    }
+    if ("hyperlink" in value) {
+      return String(value.text);
+    }
+    if ("error" in value) {
+      return "";
+    }
+  }
+  return String(value);
+}
+
+async function readAll(input: AsyncIterable<Uint8Array>) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of input) {
+    size += chunk.byteLength;
+    if (size > MAX_BUFFERED_BYTES) {
+      throw new Error(
+        `Excel and JSON files can be at most ${MAX_BUFFERED_BYTES / 1024 / 1024} MB. Upload large backer lists as CSV.`,
+      );
+    }
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
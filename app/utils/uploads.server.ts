@@ -0,0 +1,104 @@
+import db from "../db.server";
+
+// Rows read from an uploaded file, whatever its format. `headers` is only
+// complete once every row has been read.
+export interface RowSource {
+  headers: string[];
+  rows: AsyncIterable<Record<string, unknown>>;
+  // How the file was read, e.g. "UTF-8, comma-separated"
+  format: string;
+  // Worksheets of an Excel file, and the one that was read
+  sheets?: string[];
+  sheet?: string;
+}
+
+// Rows sent back to the page for the column previews
+const PREVIEW_ROWS = 20;
+const INSERT_BATCH_SIZE = 500;
+// Uploads that never became a run are cleaned up after this long
+const UPLOAD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Stores every row of an upload under a new upload ID. Only the headers, a
+// preview and the row count go back to the page; the generate and validate
+// intents load the rows by ID.
+export async function storeUpload(
+  shop: string,
+  fileName: string,
+  source: RowSource,
+) {
+  await db.upload.deleteMany({
+    where: { shop, createdAt: { lt: new Date(Date.now() - UPLOAD_TTL_MS) } },
+  });
+
+  const upload = await db.upload.create({
+    data: { shop, fileName, format: source.format, headers: [] },
+  });
+
+  const preview: Record<string, unknown>[] = [];
+  let rowCount = 0;
+  let batch: { uploadId: string; row: number; data: any }[] = [];
+
+  try {
+    for await (const data of source.rows) {
+      rowCount++;
+      if (preview.length < PREVIEW_ROWS) {
+        preview.push(data);
+      }
+
+      batch.push({ uploadId: upload.id, row: rowCount, data });
+      if (batch.length === INSERT_BATCH_SIZE) {
+        await db.uploadRow.createMany({ data: batch });
+        batch = [];
+      }
+    }
+
+    if (batch.length) {
+      await db.uploadRow.createMany({ data: batch });
+    }
+  } catch (error) {
+    await db.upload.delete({ where: { id: upload.id } });
+    throw error;
+  }
+
+  await db.upload.update({
+    where: { id: upload.id },
+    data: { headers: source.headers, rowCount },
+  });
+
+  return {
+    uploadId: upload.id as string,
+    fileName,
+    format: source.format,
+    sheets: source.sheets ?? [],
+    sheet: source.sheet ?? null,
+    headers: source.headers,
+    data: preview,
+    rowCount,
+  };
+}
+
+// Loads an upload's rows in file order. `rows` keeps each row's 1-based
+// number in the file, which run results and the validation report share.
+export async function getUploadRows(shop: string, uploadId: string) {
+  const upload = await db.upload.findFirst({
+    where: { id: uploadId, shop },
+  });
+
+  if (!upload) {
+    throw new Error("Upload not found. Please upload the file again.");
+  }
+
+  const rows: { row: number; data: Record<string, unknown> }[] =
+    await db.uploadRow.findMany({
+      where: { uploadId },
+      orderBy: { row: "asc" },
+      select: { row: true, data: true },
+    });
+
+  return {
+    fileName: upload.fileName as string,
+    headers: upload.headers as string[],
+    data: rows.map((row) => row.data),
+    rows,
+  };
+}
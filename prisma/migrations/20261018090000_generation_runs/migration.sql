@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "public"."GenerationRun" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "fileName" TEXT,
+    "mapping" JSONB NOT NULL,
+    "transform" TEXT,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "successful" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GenerationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."GeneratedCode" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "row" INTEGER NOT NULL,
+    "customer" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "discountCode" TEXT,
+    "discountId" TEXT,
+    "amount" DOUBLE PRECISION,
+    "message" TEXT NOT NULL,
+    "rowData" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GeneratedCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GenerationRun_shop_createdAt_idx" ON "public"."GenerationRun"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GeneratedCode_discountCode_idx" ON "public"."GeneratedCode"("discountCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GeneratedCode_runId_row_key" ON "public"."GeneratedCode"("runId", "row");
+
+-- AddForeignKey
+ALTER TABLE "public"."GeneratedCode" ADD CONSTRAINT "GeneratedCode_runId_fkey" FOREIGN KEY ("runId") REFERENCES "public"."GenerationRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."GenerationRun" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "finishedAt" TIMESTAMP(3),
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "lockedAt" TIMESTAMP(3),
+ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'queued';
+
+-- Runs saved before the job queue existed were generated synchronously
+UPDATE "public"."GenerationRun" SET "status" = 'completed', "finishedAt" = "updatedAt";
+
+-- AlterTable
+ALTER TABLE "public"."GeneratedCode" ADD COLUMN     "processedAt" TIMESTAMP(3);
+
+UPDATE "public"."GeneratedCode" SET "processedAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "GenerationRun_status_createdAt_idx" ON "public"."GenerationRun"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GeneratedCode_runId_status_idx" ON "public"."GeneratedCode"("runId", "status");
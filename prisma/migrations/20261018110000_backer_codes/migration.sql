@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."BackerCode" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "backerKey" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "row" INTEGER NOT NULL,
+    "discountCode" TEXT,
+    "discountId" TEXT,
+    "amount" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BackerCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BackerCode_shop_backerKey_key" ON "public"."BackerCode"("shop", "backerKey");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."GenerationRun" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'individual';
+
+-- CreateTable
+CREATE TABLE "public"."DiscountGroup" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "groupKey" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "discountId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DiscountGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiscountGroup_runId_groupKey_key" ON "public"."DiscountGroup"("runId", "groupKey");
+
+-- AddForeignKey
+ALTER TABLE "public"."DiscountGroup" ADD CONSTRAINT "DiscountGroup_runId_fkey" FOREIGN KEY ("runId") REFERENCES "public"."GenerationRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."GenerationRun" ADD COLUMN     "settings" JSONB NOT NULL DEFAULT '{"type": "fixed_amount", "valueSource": "column"}';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."GeneratedCode" ADD COLUMN     "customerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."BackerCode" ADD COLUMN     "customerId" TEXT;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."CodeSequence" (
+    "shop" TEXT NOT NULL,
+    "value" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CodeSequence_pkey" PRIMARY KEY ("shop")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ReservedCode" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReservedCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReservedCode_shop_code_key" ON "public"."ReservedCode"("shop", "code");
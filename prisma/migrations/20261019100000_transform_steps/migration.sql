@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."GenerationRun" ADD COLUMN     "transformSteps" JSONB NOT NULL DEFAULT '[]';
+
+-- A plain `return name;` is the old default and does nothing
+UPDATE "public"."GenerationRun" SET "transform" = NULL WHERE TRIM("transform") IN ('return name;', 'return name', '');
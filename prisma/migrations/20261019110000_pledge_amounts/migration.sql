@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."GeneratedCode" ADD COLUMN     "pledge" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "public"."BackerCode" ADD COLUMN     "pledge" DOUBLE PRECISION;
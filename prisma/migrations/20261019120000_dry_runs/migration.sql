@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."GenerationRun" ADD COLUMN     "dryRun" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "public"."Upload" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "headers" JSONB NOT NULL,
+    "rowCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Upload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."UploadRow" (
+    "id" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "row" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+
+    CONSTRAINT "UploadRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Upload_shop_createdAt_idx" ON "public"."Upload"("shop", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UploadRow_uploadId_row_key" ON "public"."UploadRow"("uploadId", "row");
+
+-- AddForeignKey
+ALTER TABLE "public"."UploadRow" ADD CONSTRAINT "UploadRow_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "public"."Upload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."GenerationRun" ADD COLUMN "customerSync" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."GeneratedCode" ADD COLUMN "syncMessage" TEXT,
+ADD COLUMN "syncStatus" TEXT;
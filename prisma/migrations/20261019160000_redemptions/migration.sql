@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "public"."GenerationRun" ADD COLUMN "usageCheckedAt" TIMESTAMP(3),
+ADD COLUMN "usageError" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."GeneratedCode" ADD COLUMN "discountStatus" TEXT,
+ADD COLUMN "usageCount" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."Redemption" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "row" INTEGER NOT NULL,
+    "code" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderName" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL,
+    "redeemedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Redemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Redemption_runId_idx" ON "public"."Redemption"("runId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Redemption_runId_row_orderId_key" ON "public"."Redemption"("runId", "row", "orderId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Redemption" ADD CONSTRAINT "Redemption_runId_fkey" FOREIGN KEY ("runId") REFERENCES "public"."GenerationRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
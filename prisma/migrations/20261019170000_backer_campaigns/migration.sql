@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "public"."BackerCode_shop_backerKey_key";
+
+-- AlterTable
+ALTER TABLE "public"."BackerCode" ADD COLUMN "campaign" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "public"."GenerationRun" ADD COLUMN "campaign" TEXT NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BackerCode_shop_campaign_backerKey_key" ON "public"."BackerCode"("shop", "campaign", "backerKey");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."GenerationRun" ADD COLUMN "headers" JSONB NOT NULL DEFAULT '[]';